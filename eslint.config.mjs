@@ -48,4 +48,15 @@ export default tseslint.config(
             "depend/ban-dependencies": "off",
         },
     },
+    {
+        // Unit tests run under jest, which provides these as globals.
+        files: ["**/*.test.ts"],
+        languageOptions: {
+            globals: {
+                describe: "readonly",
+                it: "readonly",
+                expect: "readonly",
+            },
+        },
+    },
 );
@@ -11,9 +11,26 @@ import {
 } from "obsidian";
 
 import { EditTagsModal } from "./src/batch/EditTagsModal";
-import { applyTagUpdates } from "./src/batch/FileTagProcessor";
+import {
+    applyPropertyUpdates,
+    applyTagUpdates,
+    PropertyUpdate,
+    TagUpdate,
+    TagUpdateOptions,
+    TagUpdateResult,
+} from "./src/batch/FileTagProcessor";
+import { BulkProgressModal, PROGRESS_MODAL_MIN_FILES } from "./src/batch/BulkProgressModal";
+import { EditPropertyModal } from "./src/batch/EditPropertyModal";
+import { RenameTagModal } from "./src/batch/RenameTagModal";
+import { MergeTagsModal } from "./src/batch/MergeTagsModal";
+import { SelectNotesByQueryModal } from "./src/batch/SelectNotesByQueryModal";
+import { buildAddTagsUpdate } from "./src/batch/TagPresets";
+import { folderRuleTags, folderTagsForPath } from "./src/batch/FolderTagRules";
+import { buildFrontmatterToInlineUpdates, buildInlineToFrontmatterUpdates } from "./src/batch/TagMigration";
+import { TagEditJournal } from "./src/batch/TagEditJournal";
+import { revertWithNotice, TagEditHistoryModal } from "./src/batch/TagEditHistoryModal";
 import { TagTacticianSettingTab } from "./src/settings/TagTacticianSettingTab";
-import { TagTacticianSettings, DEFAULT_SETTINGS } from "./src/settings/PluginSettings";
+import { FolderTagRule, TagPreset, TagTacticianSettings, DEFAULT_SETTINGS } from "./src/settings/PluginSettings";
 import { TagIndexer } from "./src/relatedView/TagIndexer";
 import { RelatedNotesView, RELATED_NOTES_VIEW_TYPE } from "./src/relatedView/RelatedNotesView";
 import { NavByTagView, TAG_NAVIGATION_VIEW_TYPE } from "./src/navByTag/NavByTagView";
@@ -45,13 +62,16 @@ declare module "obsidian" {
 export default class TagTacticianPlugin extends Plugin {
     settings: TagTacticianSettings;
     public tagIndexer: TagIndexer;
+    public tagEditJournal: TagEditJournal;
     private activeFilePath: string | null = null;
+    private pendingFolderTagFiles: Set<TFile> = new Set(); // created / moved notes waiting for the folder rules
+    private folderTagTimer: number | null = null;
 
     async onload() {
         await this.loadSettings();
 
         // Setup plugin features
-        this.setupBatchTagEditing();
+        await this.setupBatchTagEditing();
         this.setupRelatedNotesView();
         this.setupNavByTag();
 
@@ -60,10 +80,14 @@ export default class TagTacticianPlugin extends Plugin {
     }
 
     /**
-     * Clean up when plugin is disabled. Obsidian detaches the plugin's leaves
-     * automatically, so no manual cleanup is required here.
+     * Clean up when plugin is disabled. Obsidian detaches the plugin's leaves and
+     * registered events automatically; only the pending folder rule run is cancelled here,
+     * so notes queued for the folder rules are left alone once the plugin is disabled.
      */
     onunload() {
+        window.clearTimeout(this.folderTagTimer ?? undefined);
+        this.folderTagTimer = null;
+        this.pendingFolderTagFiles.clear();
     }
 
     // --------------------------------
@@ -92,7 +116,81 @@ export default class TagTacticianPlugin extends Plugin {
     /**
      * Set up batch tag editing feature
      */
-    private setupBatchTagEditing() {
+    private async setupBatchTagEditing() {
+        // The undo journal lives next to data.json in the plugin folder
+        this.tagEditJournal = new TagEditJournal(
+            this.app,
+            `${this.manifest.dir ?? ""}/tag-edit-journal.json`,
+            () => this.settings.undoHistorySize
+        );
+        await this.tagEditJournal.load();
+
+        this.addCommand({
+            id: "undo-last-bulk-tag-edit",
+            name: "Undo last bulk tag edit",
+            callback: async () => {
+                const entry = this.tagEditJournal.getLastRevertable();
+                if (!entry) {
+                    new Notice("There is no bulk tag edit to undo.");
+                    return;
+                }
+                await revertWithNotice(this.tagEditJournal, entry);
+            },
+        });
+
+        this.addCommand({
+            id: "show-bulk-tag-edit-history",
+            name: "Show bulk tag edit history",
+            callback: () => new TagEditHistoryModal(this.app, this.tagEditJournal).open(),
+        });
+
+        this.addCommand({
+            id: "rename-tag",
+            name: "Rename tag",
+            callback: () => this.openRenameTagModal(),
+        });
+
+        this.registerTagPresetCommands();
+        this.registerFolderTagRuleCommands();
+
+        // Tag notes by folder once they are created or moved. The vault reports every existing
+        // file as created while loading, so only listen after the layout is ready.
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on("create", (file) => this.queueFolderTagRules(file)));
+            this.registerEvent(
+                this.app.vault.on("rename", (file, oldPath) => {
+                    if (parentPath(file.path) !== parentPath(oldPath)) {
+                        this.queueFolderTagRules(file);
+                    }
+                })
+            );
+        });
+
+        this.addCommand({
+            id: "select-notes-by-query",
+            name: "Select notes by query",
+            callback: () => {
+                new SelectNotesByQueryModal(this.app, this.settings, (files) => {
+                    new EditTagsModal(this.app, files, this.settings, this.tagEditJournal, (updates) => this.applyEditTagsModal(updates)).open();
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: "merge-tags",
+            name: "Merge tags",
+            callback: () => {
+                new MergeTagsModal(this.app, this.settings, async (updates, description, counts) => {
+                    const modifiedCount = await this.applyBulkTagUpdates(updates, description);
+                    const perTag = counts
+                        .filter((c) => c.occurrences > 0)
+                        .map((c) => `${c.tag}: ${c.occurrences}`)
+                        .join(", ");
+                    new Notice(`Merged tags in ${modifiedCount} file(s) (${perTag}).`);
+                }).open();
+            },
+        });
+
         // Register events for the Bulk Tag Editing
         this.registerEvent(
             this.app.workspace.on("file-menu", (menu, file) => {
@@ -119,16 +217,18 @@ export default class TagTacticianPlugin extends Plugin {
                         .setTitle(`Edit tags on ${files.length} notes...`)
                         .setIcon("tag")
                         .onClick(() => {
-                            new EditTagsModal(this.app, files, async (updates) => {
-                                const modifiedCount = await applyTagUpdates(
-                                    this.app,
-                                    updates,
-                                    this.settings
-                                );
-                                new Notice(`Updated frontmatter tags in ${modifiedCount} file(s).`);
-                            }).open();
+                            new EditTagsModal(this.app, files, this.settings, this.tagEditJournal, (updates) => this.applyEditTagsModal(updates)).open();
                         });
                 })
+                menu.addItem((item) => {
+                    item
+                        .setTitle(`Edit property on ${files.length} notes...`)
+                        .setIcon("list")
+                        .onClick(() => {
+                            new EditPropertyModal(this.app, files, (updates, property) => this.applyEditPropertyModal(updates, property)).open();
+                        });
+                })
+                this.addConversionMenuItems(menu, files);
             })
         )
     }
@@ -139,20 +239,249 @@ export default class TagTacticianPlugin extends Plugin {
     private addTagMenuItem(menu: Menu, selection: TAbstractFile[]) {
         menu.addItem((item) => {
             item
-                .setTitle("Edit tags (frontmatter)")
+                .setTitle("Edit tags")
                 .setIcon("hashtag")
                 .onClick(() => {
                     const allItems = expandFolders(selection);
-                    new EditTagsModal(this.app, allItems, async (updates) => {
-                        const modifiedCount = await applyTagUpdates(
-                            this.app,
-                            updates,
-                            this.settings
-                        );
-                        new Notice(`Updated frontmatter tags in ${modifiedCount} file(s).`);
-                    }).open();
+                    new EditTagsModal(this.app, allItems, this.settings, this.tagEditJournal, (updates) => this.applyEditTagsModal(updates)).open();
                 });
         });
+        menu.addItem((item) => {
+            item
+                .setTitle("Edit property")
+                .setIcon("list")
+                .onClick(() => {
+                    const allItems = expandFolders(selection);
+                    new EditPropertyModal(this.app, allItems, (updates, property) => this.applyEditPropertyModal(updates, property)).open();
+                });
+        });
+        this.addConversionMenuItems(menu, selection);
+    }
+
+    /**
+     * Add the inline <-> frontmatter conversion items to the context menu
+     */
+    private addConversionMenuItems(menu: Menu, selection: TAbstractFile[]) {
+        menu.addItem((item) => {
+            item
+                .setTitle("Move inline tags to frontmatter")
+                .setIcon("arrow-up-to-line")
+                .onClick(() => void this.convertTags(selection, "inline-to-frontmatter"));
+        });
+        menu.addItem((item) => {
+            item
+                .setTitle("Move frontmatter tags inline")
+                .setIcon("arrow-down-to-line")
+                .onClick(() => void this.convertTags(selection, "frontmatter-to-inline"));
+        });
+    }
+
+    /**
+     * Move tags between the body and the frontmatter of the selected notes
+     */
+    private async convertTags(selection: TAbstractFile[], direction: "inline-to-frontmatter" | "frontmatter-to-inline") {
+        const files = expandFolders(selection)
+            .filter((f): f is TFile => f instanceof TFile && f.extension === "md");
+        const keepSource = this.settings.keepTagsAfterConversion;
+
+        if (direction === "inline-to-frontmatter") {
+            const updates = await buildInlineToFrontmatterUpdates(this.app, this.settings, files, keepSource);
+            const modifiedCount = await this.applyBulkTagUpdates(updates, "Move inline tags to frontmatter");
+            new Notice(`Moved inline tags to frontmatter in ${modifiedCount} file(s).`);
+        } else {
+            const updates = await buildFrontmatterToInlineUpdates(this.app, this.settings, files, keepSource);
+            const modifiedCount = await this.applyBulkTagUpdates(updates, "Move frontmatter tags inline");
+            new Notice(`Moved frontmatter tags inline in ${modifiedCount} file(s).`);
+        }
+    }
+
+    /**
+     * Add (or re-add, after a rename) an "Apply preset" command per tag preset. Commands of
+     * deleted presets stay registered until the next reload but are no longer offered.
+     */
+    public registerTagPresetCommands() {
+        for (const { id, name } of this.settings.tagPresets) {
+            this.addCommand({
+                id: `apply-tag-preset-${id}`,
+                name: `Apply preset "${name}" to current note`,
+                checkCallback: (checking) => {
+                    const file = this.app.workspace.getActiveFile();
+                    const preset = this.settings.tagPresets.find((p) => p.id === id);
+                    if (!file || file.extension !== "md" || !preset) return false;
+                    if (!checking) {
+                        void this.applyTagPreset(file, preset);
+                    }
+                    return true;
+                },
+            });
+        }
+    }
+
+    /**
+     * Add a preset's tags to one note, recording it in the undo journal
+     */
+    private async applyTagPreset(file: TFile, preset: TagPreset) {
+        const update = await buildAddTagsUpdate(this.app, this.settings, file, preset.tags);
+        if (!update) {
+            new Notice(`${file.basename} already has the tags of "${preset.name}".`);
+            return;
+        }
+        await this.applyBulkTagUpdates([update], `Apply preset "${preset.name}" to ${file.basename}`);
+        new Notice(`Applied preset "${preset.name}".`);
+    }
+
+    /**
+     * Add (or re-add, after an edit) an "Apply folder tag rule" command per rule, like the preset commands
+     */
+    public registerFolderTagRuleCommands() {
+        for (const { id, pattern } of this.settings.folderTagRules) {
+            this.addCommand({
+                id: `apply-folder-tag-rule-${id}`,
+                name: `Apply folder tag rule "${pattern}" to existing notes`,
+                checkCallback: (checking) => {
+                    const rule = this.settings.folderTagRules.find((r) => r.id === id);
+                    if (!rule || rule.pattern.trim().length === 0 || rule.tags.length === 0) return false;
+                    if (!checking) {
+                        this.openFolderTagRulePreview(rule);
+                    }
+                    return true;
+                },
+            });
+        }
+    }
+
+    /**
+     * Open the bulk edit modal on every note a folder rule matches, with the rule's tags already added
+     */
+    public openFolderTagRulePreview(rule: FolderTagRule) {
+        const ruleTags = new Map<TFile, string[]>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const tags = folderRuleTags(rule, file.path, this.settings.tagNormalization);
+            if (tags.length > 0) ruleTags.set(file, tags);
+        }
+        if (ruleTags.size === 0) {
+            new Notice(`No notes match "${rule.pattern}".`);
+            return;
+        }
+        new EditTagsModal(
+            this.app,
+            [...ruleTags.keys()],
+            this.settings,
+            this.tagEditJournal,
+            (updates) => this.applyEditTagsModal(updates),
+            ruleTags
+        ).open();
+    }
+
+    /**
+     * Collect a created or moved note for the folder rules. Moving a folder moves many notes
+     * at once, so they are written together as a single undoable edit.
+     */
+    private queueFolderTagRules(file: TAbstractFile) {
+        if (!this.settings.autoApplyFolderTagRules || this.settings.folderTagRules.length === 0) return;
+        if (!(file instanceof TFile) || file.extension !== "md") return;
+
+        this.pendingFolderTagFiles.add(file);
+        window.clearTimeout(this.folderTagTimer ?? undefined);
+        this.folderTagTimer = window.setTimeout(() => void this.applyPendingFolderTagRules(), 500);
+    }
+
+    /**
+     * Add the folder rules' missing tags to the queued notes
+     */
+    private async applyPendingFolderTagRules() {
+        const files = [...this.pendingFolderTagFiles];
+        this.pendingFolderTagFiles.clear();
+
+        const updates: TagUpdate[] = [];
+        for (const file of files) {
+            if (this.app.vault.getAbstractFileByPath(file.path) !== file) continue; // deleted meanwhile
+            const tags = folderTagsForPath(this.settings, file.path, this.settings.tagNormalization);
+            if (tags.length === 0) continue;
+            const update = await buildAddTagsUpdate(this.app, this.settings, file, tags);
+            if (update) updates.push(update);
+        }
+        if (updates.length > 0) {
+            await this.applyBulkTagUpdates(updates, `Apply folder tag rules to ${updates.length} file(s)`);
+        }
+    }
+
+    /**
+     * Open the vault-wide rename modal, optionally pre-filled with a tag
+     */
+    public openRenameTagModal(tag: string = "") {
+        new RenameTagModal(this.app, this.settings, tag, async (updates, description) => {
+            const modifiedCount = await this.applyBulkTagUpdates(updates, description);
+            new Notice(`Renamed tags in ${modifiedCount} file(s).`);
+        }).open();
+    }
+
+    /**
+     * Write the result of the bulk edit modal
+     */
+    private async applyEditTagsModal(updates: TagUpdate[]) {
+        const modifiedCount = await this.applyBulkTagUpdates(updates);
+        new Notice(`Updated tags in ${modifiedCount} file(s).`);
+    }
+
+    /**
+     * Write the result of the bulk property modal, recording it in the undo journal
+     */
+    private async applyEditPropertyModal(updates: PropertyUpdate[], property: string) {
+        const result = await this.runBulkWrite(
+            updates.length,
+            `Edit "${property}" on ${updates.length} file(s)`,
+            (options) => applyPropertyUpdates(this.app, updates, this.settings, options)
+        );
+        new Notice(`Updated "${property}" in ${result.modified.length} file(s).`);
+    }
+
+    /**
+     * Write tag updates, recording them in the undo journal
+     * @returns The number of files actually modified
+     */
+    private async applyBulkTagUpdates(updates: TagUpdate[], description?: string): Promise<number> {
+        const result = await this.runBulkWrite(
+            updates.length,
+            description,
+            (options) => applyTagUpdates(this.app, updates, this.settings, options)
+        );
+        return result.modified.length;
+    }
+
+    /**
+     * Run a bulk write with the undo journal. Large runs show a progress modal that can cancel them.
+     */
+    private async runBulkWrite(
+        fileCount: number,
+        description: string | undefined,
+        write: (options: TagUpdateOptions) => Promise<TagUpdateResult>
+    ): Promise<TagUpdateResult> {
+        const progress = fileCount >= PROGRESS_MODAL_MIN_FILES
+            ? new BulkProgressModal(this.app, description ?? `Edit tags on ${fileCount} file(s)`)
+            : null;
+        progress?.open();
+
+        try {
+            const result = await write({
+                journal: this.tagEditJournal,
+                description,
+                signal: progress?.signal,
+                onProgress: progress ? (done, total) => progress.setProgress(done, total) : undefined,
+            });
+            if (progress) {
+                progress.showResult(result);
+            } else if (result.conflicted.length > 0 || result.failed.length > 0) {
+                new Notice(
+                    `Skipped ${result.conflicted.length + result.failed.length} file(s) that changed ` +
+                    "since the preview or could not be written."
+                );
+            }
+            return result;
+        } catch (e) {
+            progress?.close();
+            throw e;
+        }
     }
 
     // --------------------------------
@@ -165,6 +494,16 @@ export default class TagTacticianPlugin extends Plugin {
     private setupRelatedNotesView() {
         // Initialize the TagIndexer (for "Related Notes")
         this.tagIndexer = new TagIndexer(this);
+        this.tagIndexer.registerEvents();
+
+        // Follow the active note when it is renamed (the view refreshes itself on index changes)
+        this.registerEvent(
+            this.tagIndexer.on("changed", (change) => {
+                if (change.oldPath !== undefined && change.oldPath === this.activeFilePath) {
+                    this.activeFilePath = change.notePath;
+                }
+            })
+        );
         
         // Register the "Related Notes" view
         this.registerView(RELATED_NOTES_VIEW_TYPE, (leaf) => new RelatedNotesView(leaf, this));
@@ -201,9 +540,7 @@ export default class TagTacticianPlugin extends Plugin {
         );
 
         // Build the tag index after layout is ready (so getMarkdownFiles() won't be empty)
-        this.app.workspace.onLayoutReady(async () => {
-            await this.tagIndexer.buildIndex();
-        });
+        this.app.workspace.onLayoutReady(() => this.tagIndexer.buildIndex());
     }
 
     /**
@@ -267,15 +604,6 @@ export default class TagTacticianPlugin extends Plugin {
             name: "Open tag-based file navigation",
             callback: () => this.activateTagNavigationView(),
         });
-
-        // Refresh the navigation view when metadata changes (debounced)
-        let timer: number | null = null;
-        this.registerEvent(
-            this.app.metadataCache.on("changed", () => {
-                window.clearTimeout(timer ?? undefined);
-                timer = window.setTimeout(() => this.refreshTagNavigationView(), 150);
-            })
-        );
     }
 
     /**
@@ -298,14 +626,6 @@ export default class TagTacticianPlugin extends Plugin {
             await this.app.workspace.revealLeaf(leaf);
         }
     }
-
-    refreshTagNavigationView() {
-        const leaves = this.app.workspace.getLeavesOfType(TAG_NAVIGATION_VIEW_TYPE);
-        const leaf = leaves.length > 0 ? leaves[0] : null;
-        if (!leaf) return;
-        const view = leaf.view instanceof NavByTagView ? leaf.view : null;
-        if (view) view.refresh();
-    }
 }
 
 /**
@@ -327,3 +647,10 @@ function expandFolders(selection: TAbstractFile[]): TAbstractFile[] {
     }
     return results;
 }
+
+/**
+ * The folder part of a vault path ("" for the vault root)
+ */
+function parentPath(path: string): string {
+    return path.substring(0, Math.max(path.lastIndexOf("/"), 0));
+}
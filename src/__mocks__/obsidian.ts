@@ -0,0 +1,336 @@
+import * as yaml from "js-yaml";
+
+/**
+ * The parts of the Obsidian API that the pure helpers and the modals call at runtime, for
+ * the unit tests. The `obsidian` package only ships type declarations.
+ */
+
+export interface FrontMatterInfo {
+    exists: boolean;
+    frontmatter: string;
+    from: number;
+    to: number;
+    contentStart: number;
+}
+
+/** Like Obsidian's: a `---` line at the very start, closed by the next `---` line. */
+export function getFrontMatterInfo(content: string): FrontMatterInfo {
+    const missing = {exists: false, frontmatter: "", from: 0, to: 0, contentStart: 0};
+    const open = /^---\r?\n/.exec(content);
+    if (!open) return missing;
+
+    const close = /(^|\n)---[ \t]*(\r?\n|$)/.exec(content.slice(open[0].length - 1));
+    if (!close) return missing;
+
+    const from = open[0].length;
+    const to = open[0].length - 1 + close.index + close[1].length;
+    return {
+        exists: true,
+        frontmatter: content.slice(from, to),
+        from,
+        to,
+        contentStart: open[0].length - 1 + close.index + close[0].length,
+    };
+}
+
+export function parseYaml(text: string): unknown {
+    return yaml.load(text);
+}
+
+export class TFile {
+    path = "";
+    basename = "";
+    extension = "md";
+    stat = {ctime: 0, mtime: 0, size: 0};
+    parent: {path: string} | null = null; // the vault root's path is "/"
+}
+
+/** Like Obsidian's: callbacks by event name, called in the order they were added. */
+export class Events {
+    private callbacks = new Map<string, Array<(...data: unknown[]) => unknown>>();
+
+    on(name: string, callback: (...data: unknown[]) => unknown) {
+        this.callbacks.set(name, [...(this.callbacks.get(name) ?? []), callback]);
+        return {name, callback};
+    }
+
+    trigger(name: string, ...data: unknown[]) {
+        this.callbacks.get(name)?.forEach((callback) => callback(...data));
+    }
+}
+
+interface ElementInfo {
+    text?: string;
+    cls?: string;
+    type?: string;
+    attr?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A stand-in for an HTMLElement with Obsidian's helpers (`createEl`, `empty`, `setText`, ...),
+ * enough to open the modals. Listeners are called by `trigger`.
+ */
+export class MockElement {
+    children: MockElement[] = [];
+    classes = new Set<string>();
+    attributes: Record<string, string> = {};
+    text = "";
+    value = "";
+    checked = false;
+    title = "";
+    placeholder = "";
+    hidden = false;
+    private listeners = new Map<string, Array<(evt: unknown) => void>>();
+
+    constructor(public tag: string = "div") {}
+
+    createEl(tag: string, info: ElementInfo | string = {}): MockElement {
+        const el = new MockElement(tag);
+        const {text, cls, type, attr} = typeof info === "string" ? {cls: info} as ElementInfo : info;
+        el.text = text ?? "";
+        cls?.split(" ").forEach((c) => el.classes.add(c));
+        if (type) el.attributes.type = type;
+        for (const [key, value] of Object.entries(attr ?? {})) {
+            el.attributes[key] = String(value);
+        }
+        this.children.push(el);
+        return el;
+    }
+
+    createDiv(info?: ElementInfo | string): MockElement {
+        return this.createEl("div", info);
+    }
+
+    createSpan(info?: ElementInfo | string): MockElement {
+        return this.createEl("span", info);
+    }
+
+    appendChild(el: MockElement): MockElement {
+        this.children = [...this.children.filter((child) => child !== el), el];
+        return el;
+    }
+
+    appendText(text: string) {
+        this.text += text;
+    }
+
+    setText(text: string) {
+        this.text = text;
+    }
+
+    empty() {
+        this.children = [];
+        this.text = "";
+    }
+
+    addClass(...classes: string[]) {
+        classes.forEach((c) => this.classes.add(c));
+    }
+
+    removeClass(...classes: string[]) {
+        classes.forEach((c) => this.classes.delete(c));
+    }
+
+    toggleClass(cls: string, value: boolean) {
+        if (value) this.classes.add(cls);
+        else this.classes.delete(cls);
+    }
+
+    toggle(show: boolean) {
+        this.hidden = !show;
+    }
+
+    addEventListener(type: string, listener: (evt: unknown) => void) {
+        this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+
+    trigger(type: string, evt: object = {}) {
+        this.listeners.get(type)?.forEach((listener) => listener({preventDefault: () => {}, ...evt}));
+    }
+
+    /** This element and everything below it, depth first. */
+    all(): MockElement[] {
+        return [this, ...this.children.flatMap((child) => child.all())];
+    }
+}
+
+export class Modal {
+    modalEl = new MockElement();
+    contentEl = new MockElement();
+
+    constructor(public app: unknown) {}
+
+    open() {
+        return (this as unknown as {onOpen(): unknown}).onOpen();
+    }
+
+    close() {
+        (this as unknown as {onClose?(): void}).onClose?.();
+    }
+}
+
+export class Notice {
+    constructor(public message: string) {}
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- the suggestion type, as in the real class
+export class AbstractInputSuggest<T> {
+    constructor(public app: unknown, public textInputEl: MockElement) {}
+
+    close() {}
+}
+
+abstract class ValueComponent<T> {
+    protected changeCallback: ((value: T) => unknown) | null = null;
+
+    onChange(callback: (value: T) => unknown): this {
+        this.changeCallback = callback;
+        return this;
+    }
+
+    abstract getValue(): T;
+
+    onChanged() {
+        this.changeCallback?.(this.getValue());
+    }
+}
+
+export class TextComponent extends ValueComponent<string> {
+    inputEl: MockElement;
+
+    constructor(containerEl: MockElement) {
+        super();
+        this.inputEl = containerEl.createEl("input", {type: "text"});
+        this.inputEl.addEventListener("input", () => this.onChanged());
+    }
+
+    setPlaceholder(placeholder: string): this {
+        this.inputEl.placeholder = placeholder;
+        return this;
+    }
+
+    getValue(): string {
+        return this.inputEl.value;
+    }
+
+    setValue(value: string): this {
+        this.inputEl.value = value;
+        return this;
+    }
+}
+
+export class DropdownComponent extends ValueComponent<string> {
+    selectEl: MockElement;
+
+    constructor(containerEl: MockElement) {
+        super();
+        this.selectEl = containerEl.createEl("select");
+        this.selectEl.addEventListener("change", () => this.onChanged());
+    }
+
+    addOption(value: string, display: string): this {
+        this.selectEl.createEl("option", {text: display, attr: {value}});
+        return this;
+    }
+
+    getValue(): string {
+        return this.selectEl.value;
+    }
+
+    setValue(value: string): this {
+        this.selectEl.value = value;
+        return this;
+    }
+}
+
+export class ToggleComponent extends ValueComponent<boolean> {
+    toggleEl: MockElement;
+
+    constructor(containerEl: MockElement) {
+        super();
+        this.toggleEl = containerEl.createDiv({cls: "checkbox-container"});
+        this.toggleEl.addEventListener("click", () => this.setValue(!this.getValue()).onChanged());
+    }
+
+    getValue(): boolean {
+        return this.toggleEl.checked;
+    }
+
+    setValue(value: boolean): this {
+        this.toggleEl.checked = value;
+        return this;
+    }
+}
+
+export class ButtonComponent {
+    buttonEl: MockElement;
+
+    constructor(containerEl: MockElement) {
+        this.buttonEl = containerEl.createEl("button");
+    }
+
+    setButtonText(text: string): this {
+        this.buttonEl.setText(text);
+        return this;
+    }
+
+    setTooltip(tooltip: string): this {
+        this.buttonEl.title = tooltip;
+        return this;
+    }
+
+    setCta(): this {
+        this.buttonEl.addClass("mod-cta");
+        return this;
+    }
+
+    onClick(callback: (evt: unknown) => unknown): this {
+        this.buttonEl.addEventListener("click", callback);
+        return this;
+    }
+}
+
+/** Like Obsidian's, the `add*` methods call back right away, before they return. */
+export class Setting {
+    settingEl: MockElement;
+    nameEl: MockElement;
+    descEl: MockElement;
+    controlEl: MockElement;
+
+    constructor(containerEl: MockElement) {
+        this.settingEl = containerEl.createDiv({cls: "setting-item"});
+        this.nameEl = this.settingEl.createDiv({cls: "setting-item-name"});
+        this.descEl = this.settingEl.createDiv({cls: "setting-item-description"});
+        this.controlEl = this.settingEl.createDiv({cls: "setting-item-control"});
+    }
+
+    setName(name: string): this {
+        this.nameEl.setText(name);
+        return this;
+    }
+
+    setDesc(desc: string): this {
+        this.descEl.setText(desc);
+        return this;
+    }
+
+    addText(callback: (component: TextComponent) => unknown): this {
+        callback(new TextComponent(this.controlEl));
+        return this;
+    }
+
+    addDropdown(callback: (component: DropdownComponent) => unknown): this {
+        callback(new DropdownComponent(this.controlEl));
+        return this;
+    }
+
+    addToggle(callback: (component: ToggleComponent) => unknown): this {
+        callback(new ToggleComponent(this.controlEl));
+        return this;
+    }
+
+    addButton(callback: (component: ButtonComponent) => unknown): this {
+        callback(new ButtonComponent(this.controlEl));
+        return this;
+    }
+}
@@ -0,0 +1,135 @@
+import { App, ButtonComponent, Modal, Notice, TFile } from "obsidian";
+import { TagUpdateResult } from "./FileTagProcessor";
+
+/** Runs with at least this many files show the progress modal. */
+export const PROGRESS_MODAL_MIN_FILES = 50;
+
+/**
+ * Shows the progress of a bulk write (file count and time left) with a cancel button.
+ * If the run was cancelled or some files failed or had changed, it then reports which files were
+ * and weren't modified. Closing the modal while the run is going cancels it too.
+ */
+export class BulkProgressModal extends Modal {
+    private title: string;
+    private controller = new AbortController();
+    private startTime = Date.now();
+    private running = true;
+    private isOpen = false;
+
+    private progressEl: HTMLProgressElement;
+    private statusEl: HTMLElement;
+    private reportEl: HTMLElement;
+    private cancelButton: ButtonComponent;
+
+    constructor(app: App, title: string) {
+        super(app);
+        this.title = title;
+    }
+
+    /** Aborted when the user cancels; pass it to `applyTagUpdates`. */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.isOpen = true;
+        this.modalEl.addClass("tt-progress-modal");
+        contentEl.empty();
+        contentEl.createEl("h2", {text: this.title});
+
+        this.progressEl = contentEl.createEl("progress");
+        this.progressEl.max = 1;
+        this.progressEl.value = 0;
+        this.statusEl = contentEl.createDiv({cls: "tt-progress-status", text: "Starting..."});
+        this.reportEl = contentEl.createDiv();
+
+        const buttonContainer = contentEl.createDiv({cls: "modal-button-container"});
+        this.cancelButton = new ButtonComponent(buttonContainer)
+            .setButtonText("Cancel")
+            .onClick(() => this.cancel());
+    }
+
+    onClose() {
+        this.isOpen = false;
+        if (this.running) {
+            this.cancel();
+        }
+        this.contentEl.empty();
+    }
+
+    /**
+     * Updates the bar, the file count and the estimated time left.
+     */
+    setProgress(done: number, total: number) {
+        if (!this.isOpen) return;
+        this.progressEl.max = total;
+        this.progressEl.value = done;
+
+        const elapsed = Date.now() - this.startTime;
+        const remaining = done > 0 ? (elapsed / done) * (total - done) : 0;
+        this.statusEl.setText(`${done} of ${total} files, ${formatRemaining(remaining)}`);
+    }
+
+    /**
+     * Ends the run: closes the modal after a complete run, otherwise lists what happened to each file.
+     */
+    showResult(result: TagUpdateResult) {
+        this.running = false;
+        const total = result.modified.length + result.unchanged.length + result.conflicted.length +
+            result.failed.length + result.notProcessed.length;
+        const summary = result.cancelled
+            ? `Cancelled: ${result.modified.length} of ${total} file(s) were modified.`
+            : `Finished: ${result.modified.length} of ${total} file(s) were modified, ` +
+                `${result.conflicted.length + result.failed.length} were skipped.`;
+
+        if (!result.cancelled && result.failed.length === 0 && result.conflicted.length === 0) {
+            this.close();
+            return;
+        }
+        if (!this.isOpen) {
+            new Notice(summary);
+            return;
+        }
+
+        this.progressEl.remove();
+        this.statusEl.setText(summary);
+        this.renderFileList("Modified", result.modified);
+        this.renderFileList("Already up to date", result.unchanged);
+        this.renderFileList("Changed since the preview", result.conflicted);
+        this.renderFileList("Failed", result.failed);
+        this.renderFileList("Not processed", result.notProcessed);
+
+        this.cancelButton
+            .setButtonText("Close")
+            .setDisabled(false)
+            .onClick(() => this.close());
+    }
+
+    private cancel() {
+        if (!this.running) return;
+        this.controller.abort();
+        if (this.isOpen) {
+            this.cancelButton.setButtonText("Cancelling...").setDisabled(true);
+        }
+    }
+
+    private renderFileList(label: string, files: TFile[]) {
+        if (files.length === 0) return;
+        const details = this.reportEl.createEl("details", {cls: "tt-progress-files"});
+        details.createEl("summary", {text: `${label} (${files.length})`});
+        const ul = details.createEl("ul");
+        files.forEach((file) => ul.createEl("li", {text: file.path}));
+    }
+}
+
+/**
+ * "About 12 s left" style estimate.
+ */
+function formatRemaining(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) {
+        return `about ${seconds} s left`;
+    }
+    return `about ${Math.ceil(seconds / 60)} min left`;
+}
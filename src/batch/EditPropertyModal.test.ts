@@ -0,0 +1,50 @@
+import { App, TFile } from "obsidian";
+import { MockElement } from "../__mocks__/obsidian";
+import { EditPropertyModal } from "./EditPropertyModal";
+import { hashContent, PropertyUpdate } from "./FileTagProcessor";
+
+describe("EditPropertyModal", () => {
+    const CONTENTS: Record<string, string> = {
+        "a.md": "---\nStatus: draft\n---\nBody",
+        "b.md": "No frontmatter",
+    };
+
+    async function openModal() {
+        const files = Object.keys(CONTENTS).map((path) => Object.assign(new TFile(), {path, name: path}));
+        const app = {vault: {read: (file: TFile) => Promise.resolve(CONTENTS[file.path])}} as unknown as App;
+        const submitted: PropertyUpdate[][] = [];
+        const modal = new EditPropertyModal(app, files, (updates) => {
+            submitted.push(updates);
+        });
+        await modal.onOpen();
+
+        const type = (placeholder: string, value: string) => {
+            const input = (modal.contentEl as unknown as MockElement).all().find((el) => el.placeholder === placeholder)!;
+            input.value = value;
+            input.trigger("input");
+        };
+        return {modal, type, submitted};
+    }
+
+    it("edits the property as spelled in each note", async () => {
+        const {modal, type, submitted} = await openModal();
+        type("Property name", "status");
+        type("Values to add (comma separated)", "review");
+        modal.applyChanges();
+        expect(submitted[0].map(({property, value}) => [property, value])).toEqual([
+            ["Status", ["draft", "review"]],
+            ["status", ["review"]],
+        ]);
+    });
+
+    it("sends the hash of each note as read, so later edits are not overwritten", async () => {
+        const {modal, type, submitted} = await openModal();
+        type("Property name", "status");
+        type("Values to add (comma separated)", "review");
+        modal.applyChanges();
+        expect(submitted[0].map((update) => update.expectedHash)).toEqual([
+            hashContent(CONTENTS["a.md"]),
+            hashContent(CONTENTS["b.md"]),
+        ]);
+    });
+});
@@ -0,0 +1,394 @@
+import {
+    AbstractInputSuggest,
+    App,
+    Modal,
+    Notice,
+    parseYaml,
+    Setting,
+    TAbstractFile,
+    TFile,
+} from "obsidian";
+import { hashContent, PropertyUpdate } from "./FileTagProcessor";
+import { parseFrontmatter } from "./TagReader";
+
+/** What happens to the chosen property. */
+type PropertyOperation = "list" | "set" | "clear";
+
+/**
+ * A file's current & proposed property value, with references to its row's elements.
+ */
+interface FilePropertyData {
+    file: TFile;
+    key: string;             // the property as spelled in this note (falls back to the typed name)
+    currentValue: unknown;   // undefined if the note doesn't have the property
+    proposedValue: unknown;  // undefined removes the property
+    contentHash?: string;    // hashContent() of the note when it was read
+    accepted: boolean;       // whether this file is selected to receive changes
+    checkboxEl?: HTMLInputElement;
+    proposedEl?: HTMLSpanElement;
+}
+
+/**
+ * The modal that bulk-edits any frontmatter property (e.g. `aliases`, `status`) across
+ * multiple files: add/remove list values, set a scalar value, or clear the property.
+ */
+export class EditPropertyModal extends Modal {
+    private mdFiles: TFile[];
+    private nonMarkdownFiles: TAbstractFile[];
+    // Each note's frontmatter and hashContent(), read once when the modal opens
+    private snapshots: Map<TFile, {frontmatter: Record<string, unknown> | null; contentHash: string}> = new Map();
+
+    /**
+     * The user's callback, receiving an array of { file, property, value } and the edited property name.
+     */
+    onSubmit: (updates: PropertyUpdate[], property: string) => void | Promise<void>;
+
+    private property: string = "";
+    private operation: PropertyOperation = "list";
+    private valuesToAdd: string[] = [];
+    private valuesToRemove: string[] = [];
+    private valueToSet: string = "";
+
+    private fileData: FilePropertyData[] = [];
+    private tableContainerEl: HTMLElement;
+    private listSettings: Setting[] = [];
+    private setValueSetting: Setting;
+
+    constructor(
+        app: App,
+        files: TAbstractFile[],
+        onSubmit: (updates: PropertyUpdate[], property: string) => void | Promise<void>
+    ) {
+        super(app);
+        this.mdFiles = files.filter(
+            (f): f is TFile => f instanceof TFile && f.extension === "md"
+        );
+        this.nonMarkdownFiles = files.filter(
+            (f) => !(f instanceof TFile && f.extension === "md")
+        );
+        this.onSubmit = onSubmit;
+    }
+
+    async onOpen() {
+        const {contentEl} = this;
+        this.modalEl.addClass("tt-bulk-tag-modal");
+        contentEl.empty();
+        contentEl.createEl("h2", {text: "Bulk edit property"});
+
+        if (this.nonMarkdownFiles.length > 0) {
+            contentEl.createEl("p", {
+                text: `Warning: ${this.nonMarkdownFiles.length} selected item(s) are not Markdown files and won't be modified.`,
+            });
+        }
+
+        for (const file of this.mdFiles) {
+            const content = await this.app.vault.read(file);
+            this.snapshots.set(file, {frontmatter: parseFrontmatter(content), contentHash: hashContent(content)});
+        }
+
+        new Setting(contentEl)
+            .setName("Property")
+            .setDesc("The frontmatter property to edit, for example aliases or status.")
+            .addText(input => {
+                input.setPlaceholder("Property name")
+                    .onChange((value) => {
+                        this.property = value.trim();
+                        this.loadFileData();
+                    });
+                const frontmatters = [...this.snapshots.values()].map((snapshot) => snapshot.frontmatter);
+                new PropertyNameSuggest(this.app, input.inputEl, frontmatters);
+            });
+
+        new Setting(contentEl)
+            .setName("Operation")
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption("list", "Add or remove list values")
+                    .addOption("set", "Set value")
+                    .addOption("clear", "Clear property")
+                    .setValue(this.operation)
+                    .onChange((value) => {
+                        this.operation = value as PropertyOperation;
+                        this.showOperationSettings();
+                        this.updateProposedValues();
+                    });
+            });
+
+        this.listSettings = [
+            new Setting(contentEl)
+                .setName("Add values")
+                .setDesc("Values to add to the list, separated by commas.")
+                .addText(input => {
+                    input.setPlaceholder("Values to add (comma separated)")
+                        .onChange((value) => {
+                            this.valuesToAdd = this.parseListInput(value);
+                            this.updateProposedValues();
+                        });
+                }),
+            new Setting(contentEl)
+                .setName("Remove values")
+                .setDesc("Values to remove from the list, separated by commas.")
+                .addText(input => {
+                    input.setPlaceholder("Values to remove (comma separated)")
+                        .onChange((value) => {
+                            this.valuesToRemove = this.parseListInput(value);
+                            this.updateProposedValues();
+                        });
+                }),
+        ];
+
+        this.setValueSetting = new Setting(contentEl)
+            .setName("Value")
+            .setDesc("Replaces the current value. Numbers, booleans and [a, b] lists are written as such.")
+            .addText(input => {
+                input.setPlaceholder("New value")
+                    .onChange((value) => {
+                        this.valueToSet = value;
+                        this.updateProposedValues();
+                    });
+            });
+        this.showOperationSettings();
+
+        new Setting(contentEl)
+            .setName("File selection")
+            .setDesc("Check or uncheck all files at once.")
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Select all")
+                    .onClick(() => this.setAllAccepted(true))
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Deselect all")
+                    .onClick(() => this.setAllAccepted(false))
+            );
+
+        this.tableContainerEl = contentEl.createEl("div", {
+            cls: "bulk-tag-table-container",
+        });
+        this.loadFileData();
+
+        const buttonContainer = contentEl.createDiv({cls: "modal-button-container"});
+        buttonContainer.createEl("button", {
+            text: "Apply changes",
+            cls: "mod-cta"
+        }).addEventListener("click", () => this.applyChanges());
+
+        buttonContainer.createEl("button", {
+            text: "Cancel"
+        }).addEventListener("click", () => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Shows only the inputs that belong to the chosen operation.
+     */
+    private showOperationSettings() {
+        this.listSettings.forEach((setting) => setting.settingEl.toggle(this.operation === "list"));
+        this.setValueSetting.settingEl.toggle(this.operation === "set");
+    }
+
+    /**
+     * Reads each file's value of the chosen property and re-renders the table.
+     */
+    private loadFileData() {
+        const previous = new Map(this.fileData.map((data) => [data.file, data.accepted]));
+        const propertyLower = this.property.toLowerCase();
+
+        this.fileData = this.mdFiles.map((file) => {
+            const snapshot = this.snapshots.get(file);
+            const frontmatter = snapshot?.frontmatter ?? null;
+            const key = (frontmatter && Object.keys(frontmatter).find((k) => k.toLowerCase() === propertyLower))
+                ?? this.property;
+            const currentValue = frontmatter?.[key] ?? undefined;
+            return {
+                file,
+                key,
+                currentValue,
+                proposedValue: currentValue,
+                contentHash: snapshot?.contentHash,
+                accepted: previous.get(file) ?? true,
+            };
+        });
+
+        this.renderTable();
+        this.updateProposedValues();
+    }
+
+    private renderTable() {
+        const tableEl = this.tableContainerEl;
+        tableEl.empty();
+
+        const headerRow = tableEl.createEl("div", {cls: "bulk-tag-table-row table-header-row"});
+        headerRow.createEl("span", {cls: "cb-col"});
+        headerRow.createEl("span", {text: "File name", cls: "file-name-col header-col"});
+        headerRow.createEl("span", {text: "Current value", cls: "current-value-col header-col"});
+        headerRow.createEl("span", {text: "Proposed value", cls: "proposed-value-col header-col"});
+
+        for (const data of this.fileData) {
+            const rowEl = tableEl.createEl("div", {cls: "bulk-tag-table-row"});
+
+            const cbContainer = rowEl.createEl("div", {cls: "cb-col"});
+            const checkbox = cbContainer.createEl("input", {type: "checkbox"});
+            checkbox.checked = data.accepted;
+            checkbox.onchange = () => {
+                data.accepted = checkbox.checked;
+            };
+            data.checkboxEl = checkbox;
+
+            rowEl.createEl("span", {text: data.file.name, cls: "file-name-col"});
+            this.renderValue(rowEl.createEl("span", {cls: "current-value-col"}), data.currentValue);
+            data.proposedEl = rowEl.createEl("span", {cls: "proposed-value-col"});
+        }
+    }
+
+    /**
+     * Renders a value as one chip per list item (or a single chip for a scalar).
+     */
+    private renderValue(el: HTMLElement, value: unknown) {
+        el.empty();
+        if (value === undefined || value === null) return;
+        const items: unknown[] = Array.isArray(value) ? value : [value];
+        for (const item of items) {
+            el.createEl("span", {
+                cls: "tt-property-value",
+                text: formatValue(item),
+            });
+        }
+    }
+
+    /**
+     * Recalculates each file's proposed value for the current operation and updates the table.
+     */
+    private updateProposedValues() {
+        for (const data of this.fileData) {
+            data.proposedValue = this.property ? this.proposeValue(data.currentValue) : data.currentValue;
+            if (data.proposedEl) {
+                this.renderValue(data.proposedEl, data.proposedValue);
+            }
+        }
+    }
+
+    private proposeValue(currentValue: unknown): unknown {
+        switch (this.operation) {
+            case "clear":
+                return undefined;
+            case "set":
+                return this.valueToSet.trim().length > 0 ? this.parseScalarInput(this.valueToSet) : currentValue;
+            case "list": {
+                if (this.valuesToAdd.length === 0 && this.valuesToRemove.length === 0) {
+                    return currentValue;
+                }
+                let values: unknown[] = Array.isArray(currentValue)
+                    ? [...(currentValue as unknown[])]
+                    : currentValue === undefined || currentValue === null ? [] : [currentValue];
+                for (const value of this.valuesToAdd) {
+                    if (!values.some((v) => formatValue(v) === value)) {
+                        values.push(value);
+                    }
+                }
+                values = values.filter((v) => !this.valuesToRemove.includes(formatValue(v)));
+                return values.length > 0 ? values : undefined;
+            }
+        }
+    }
+
+    /**
+     * Reads a "set" input as YAML, so `3`, `true` and `[a, b]` keep their types.
+     * Anything that isn't a scalar or a list is written as plain text.
+     */
+    private parseScalarInput(input: string): unknown {
+        try {
+            const parsed: unknown = parseYaml(input);
+            if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+                return parsed;
+            }
+        } catch {
+            // Not valid YAML: fall through to plain text
+        }
+        return input.trim();
+    }
+
+    private setAllAccepted(accepted: boolean) {
+        for (const data of this.fileData) {
+            data.accepted = accepted;
+            if (data.checkboxEl) {
+                data.checkboxEl.checked = accepted;
+            }
+        }
+    }
+
+    applyChanges() {
+        if (!this.property) {
+            new Notice("Enter a property to edit.");
+            return;
+        }
+
+        const updates: PropertyUpdate[] = this.fileData
+            .filter((data) => data.accepted)
+            .filter((data) => JSON.stringify(data.proposedValue) !== JSON.stringify(data.currentValue))
+            .map((data) => ({
+                file: data.file,
+                property: data.key,
+                value: data.proposedValue,
+                expectedHash: data.contentHash,
+            }));
+
+        if (updates.length === 0) {
+            new Notice("No files selected for update.");
+            this.close();
+            return;
+        }
+
+        this.close();
+        void this.onSubmit(updates, this.property);
+    }
+
+    private parseListInput(input: string): string[] {
+        return input.split(",").map(value => value.trim()).filter(value => value.length > 0);
+    }
+}
+
+/**
+ * A single frontmatter value as text, e.g. for comparing list items with typed values.
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    return JSON.stringify(value);
+}
+
+/**
+ * Suggests property names used in the selected files.
+ */
+class PropertyNameSuggest extends AbstractInputSuggest<string> {
+    private inputEl: HTMLInputElement;
+    private names: string[];
+
+    constructor(app: App, inputEl: HTMLInputElement, frontmatters: (Record<string, unknown> | null)[]) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+        const names = new Set<string>();
+        frontmatters.forEach((fm) => fm && Object.keys(fm).forEach((key) => names.add(key)));
+        this.names = [...names].sort();
+    }
+
+    getSuggestions(inputStr: string): string[] {
+        const query = inputStr.toLowerCase();
+        return this.names.filter((name) => name.toLowerCase().includes(query)).slice(0, 10);
+    }
+
+    renderSuggestion(name: string, el: HTMLElement): void {
+        el.createEl("div", {text: name});
+    }
+
+    selectSuggestion(name: string): void {
+        this.inputEl.value = name;
+        this.inputEl.trigger("input");
+        this.close();
+    }
+}
@@ -0,0 +1,114 @@
+import { App, TFile } from "obsidian";
+import { MockElement } from "../__mocks__/obsidian";
+import { DEFAULT_SETTINGS, TagTacticianSettings } from "../settings/PluginSettings";
+import { EditTagsModal } from "./EditTagsModal";
+import { TagUpdate } from "./FileTagProcessor";
+import { TagEditJournal } from "./TagEditJournal";
+
+function createVault(contents: Record<string, string>) {
+    const files = Object.keys(contents).map((path) => Object.assign(new TFile(), {path, name: path.slice(path.lastIndexOf("/") + 1)}));
+    const app = {
+        vault: {
+            read: (file: TFile) => Promise.resolve(contents[file.path]),
+            getMarkdownFiles: () => files,
+        },
+    } as unknown as App;
+    return {app, files};
+}
+
+async function openModal(contents: Record<string, string>, overrides: Partial<TagTacticianSettings> = {}) {
+    const {app, files} = createVault(contents);
+    const settings: TagTacticianSettings = {...DEFAULT_SETTINGS, ...overrides};
+    const submitted: TagUpdate[][] = [];
+    const journal = new TagEditJournal(app, "journal.json", () => 20);
+    const modal = new EditTagsModal(app, files, settings, journal, (updates) => {
+        submitted.push(updates);
+    });
+    await modal.onOpen();
+
+    const elements = () => (modal.contentEl as unknown as MockElement).all();
+    const input = (placeholder: string) => elements().find((el) => el.placeholder === placeholder)!;
+    const type = (placeholder: string, value: string) => {
+        input(placeholder).value = value;
+        input(placeholder).trigger("input");
+    };
+    const proposed = () => elements()
+        .filter((el) => el.classes.has("tt-proposed-tag") && !el.classes.has("tt-tag-removed"))
+        .map((el) => el.text);
+    return {modal, elements, input, type, proposed, submitted};
+}
+
+describe("EditTagsModal", () => {
+    const NOTE = "---\ntags: [a, b]\n---\nBody";
+
+    it("opens with a row per note and proposes the typed edits", async () => {
+        const {type, proposed} = await openModal({"n.md": NOTE});
+        expect(proposed()).toEqual(["a", "b"]);
+
+        type("Tags to add (comma separated)", "c");
+        type("Tags to remove (comma separated)", "a");
+        expect(proposed()).toEqual(["b", "c"]);
+    });
+
+    it("normalizes the tags to remove like the tags to add", async () => {
+        const {type, proposed} = await openModal({"n.md": "---\ntags: [a, 2024]\n---\nBody"});
+        type("Tags to remove (comma separated)", "#a, 2024");
+        expect(proposed()).toEqual([]);
+    });
+
+    it("normalizes replacements and refuses to apply those that aren't valid tags", async () => {
+        const {modal, elements, type, proposed, submitted} = await openModal({"n.md": NOTE}, {
+            tagNormalization: {...DEFAULT_SETTINGS.tagNormalization, spacesToDashes: true},
+        });
+        const error = () => elements().find((el) => el.text.startsWith("Not applied"))?.text;
+        type("Find pattern", "^(a)$");
+        type("Replace with", "proj:$1");
+        expect(proposed()).toEqual(["a", "b"]);
+        expect(error()).toContain('"proj:a": tags cannot contain ":".');
+        await modal.applyChanges();
+        expect(submitted).toEqual([]);
+
+        type("Replace with", "$1 archive");
+        expect(proposed()).toEqual(["a-archive", "b"]);
+        expect(error()).toBeUndefined();
+        await modal.applyChanges();
+        expect(submitted[0].map((update) => update.finalTags)).toEqual([["a-archive", "b"]]);
+    });
+
+    it("applies the row's own additions and removals to its inline tags", async () => {
+        const {modal, elements, type, submitted} = await openModal({"n.md": NOTE + " #a #b"});
+        const removedInline = () => elements()
+            .filter((el) => el.classes.has("tt-tag-removed") && !el.classes.has("tt-proposed-tag"))
+            .map((el) => el.text);
+        elements().find((el) => el.classes.has("checkbox-container"))!.trigger("click");
+        type("Tags to remove (comma separated)", "a");
+        expect(removedInline()).toEqual(["a"]);
+
+        const rowInput = elements().find((el) => el.classes.has("tt-row-add-tag"))!;
+        rowInput.value = "a";
+        rowInput.trigger("change");
+        expect(removedInline()).toEqual([]);
+
+        elements().find((el) => el.classes.has("tt-proposed-tag") && el.text === "b")!.trigger("click");
+        expect(removedInline()).toEqual(["b"]);
+
+        await modal.applyChanges();
+        const [update] = submitted[0];
+        expect(update.finalTags).toEqual(["a"]);
+        expect(["a", "b"].map((tag) => update.inlineTagReplacer!(tag))).toEqual(["a", null]);
+    });
+
+    it("inserts a preset into the input it sits next to", async () => {
+        const {elements, input, proposed} = await openModal({"n.md": NOTE}, {
+            tagPresets: [{id: "p1", name: "Reading", tags: ["book", "to-read"]}],
+        });
+        const dropdowns = elements().filter((el) => el.tag === "select" && el.children[0].text === "Insert preset");
+        expect(dropdowns).toHaveLength(2);
+
+        dropdowns[0].value = "p1";
+        dropdowns[0].trigger("change");
+        expect(input("Tags to add (comma separated)").value).toBe("book, to-read");
+        expect(proposed()).toEqual(["a", "b", "book", "to-read"]);
+        expect(dropdowns[0].value).toBe("");
+    });
+});
@@ -5,9 +5,19 @@ import {
     TAbstractFile,
     Modal,
     Notice,
+    TextComponent,
 } from "obsidian";
 import { ExistingTagSuggest, FileTagSuggest } from './TagSuggest';
-import { readFileTags } from './TagReader';
+import { collectFrontmatterTags, getTagPropertyNames, parseFrontmatter } from './TagReader';
+import { compileTagPattern, replaceTagByPattern, TagPatternKind } from './TagPattern';
+import { findInlineTags, InlineTagMatch } from './InlineTagParser';
+import { applyFrontmatterFixes, hashContent, TagProcessorSettings, TagUpdate } from './FileTagProcessor';
+import { validateFrontmatter, YamlProblem } from './YamlValidator';
+import { TagEditJournal } from './TagEditJournal';
+import { orderTags, TagOrderSettings } from './TagOrder';
+import { findTagSyntaxError, normalizeTag, parseTagList, TagSyntaxSettings } from './TagSyntax';
+import { includesTag, isSameTag } from './TagIdentity';
+import { TagPresetSettings } from './TagPresets';
 
 /**
  * Basic data about a file's tags (current & proposed).
@@ -16,50 +26,107 @@ interface FileTagData {
     file: TFile;
     currentTags: string[];
     proposedTags: string[];
+    inlineTags: InlineTagMatch[]; // #tags in the note body, with their positions
     accepted: boolean; // whether this file is selected to receive changes
+    mtime: number;       // modification time when the tags were read
+    contentHash: string; // hashContent() of the note when the tags were read
+    force: boolean;      // write even though the note changed since the preview
+    rowTagsToAdd: string[];    // tags added to this file only, on top of the add/remove inputs
+    rowTagsToRemove: string[]; // tags removed from this file only
 }
 
+/** What is read from disk for a file's row. */
+type FileSnapshot = Pick<FileTagData, "currentTags" | "inlineTags" | "mtime" | "contentHash">;
+
+/** A file left out of the table because its frontmatter can't be parsed. */
+interface InvalidYamlFile {
+    file: TFile;
+    problem: YamlProblem;
+}
+
+/** Columns the table can be sorted by. */
+type SortColumn = "name" | "current" | "proposed";
+
 /**
  * Extended data that also includes references to DOM elements in the modal,
  * so we can update checkboxes and proposed-tag spans without casting.
  */
 interface RenderableFileTagData extends FileTagData {
+    rowEl?: HTMLElement;            // the whole row, highlighted on conflicts
     checkboxEl?: HTMLInputElement;  // the file's "Accept/Reject" checkbox
-    proposedEl?: HTMLSpanElement;   // the span showing the file's updated tags
+    currentEl?: HTMLSpanElement;    // the span showing the file's current tags
+    conflictEl?: HTMLElement;       // "changed since preview" message and actions
+    proposedEl?: HTMLSpanElement;   // the span showing the file's updated tags (clickable chips)
+    inlineEl?: HTMLSpanElement;     // the span showing the file's inline tags and their changes
 }
 
 /**
- * The modal that bulk-edits frontmatter tags across multiple files.
+ * The modal that bulk-edits frontmatter tags (and optionally inline tags) across multiple files.
  */
 export class EditTagsModal extends Modal {
     // Separate arrays for different categories of files:
+    private settings: TagProcessorSettings & TagOrderSettings & TagSyntaxSettings & TagPresetSettings;
     private mdFiles: TFile[];                // valid markdown files
     private nonMarkdownFiles: TAbstractFile[] = [];
-    private invalidYamlFiles: TAbstractFile[] = [];
+    private invalidYamlFiles: InvalidYamlFile[] = [];
+    private journal: TagEditJournal; // records the YAML fixes, which are written right away
 
     /**
-     * The user's callback, receiving an array of { file, finalTags } after the user applies changes.
+     * The user's callback, receiving an array of { file, finalTags, inlineTagReplacer } after the user applies changes.
      */
-    onSubmit: (filesToUpdate: { file: TFile; finalTags: string[] }[]) => void | Promise<void>;
+    onSubmit: (filesToUpdate: TagUpdate[]) => void | Promise<void>;
 
     // The user's add/remove arrays, extracted from text inputs
     private tagsToAdd: string[] = [];
     private tagsToRemove: string[] = [];
 
+    // Pattern-based find & replace, applied to the current tags before adding/removing
+    private findPatternKind: TagPatternKind = "regex";
+    private findPatternText: string = "";
+    private findPattern: RegExp | null = null;
+    private replaceTemplate: string = "";
+    private findPatternErrorEl: HTMLElement;
+    private findPatternError: string | null = null; // why the find pattern doesn't compile
+    private invalidReplacements: Map<string, string> = new Map(); // replaced tag => why it isn't a valid tag; blocks applying
+    private addTagsErrorEl: HTMLElement; // why some of the tags to add were rejected
+
+    // Whether remove and find & replace also rewrite inline #tags in the note body
+    private editInlineTags: boolean = false;
+
     // Holds each file's current + proposed tags, along with references to UI elements
     private fileTagData: RenderableFileTagData[] = [];
 
+    private conflictMessageEl: HTMLElement;
+    private invalidYamlEl: HTMLElement;
+    private tableContainerEl: HTMLElement;
+
+    // Which rows are shown and in what order; neither affects what gets applied
+    private filterText: string = "";
+    private sortColumn: SortColumn | null = null;
+    private sortDescending: boolean = false;
+    private sortHeaderEls: Map<SortColumn, HTMLElement> = new Map();
+    private lastToggledRow: RenderableFileTagData | null = null; // anchor for shift-click ranges
+
     private addTagsInput: HTMLInputElement;
     private removeTagsInput: HTMLInputElement;
     private addTagSuggest: ExistingTagSuggest;
     private removeTagSuggest: FileTagSuggest;
 
+    // Per-row tags to start with, e.g. the tags folder rules give each note
+    private initialRowTags: Map<TFile, string[]>;
+
     constructor(
         app: App,
         files: TAbstractFile[],
-        onSubmit: (filesToUpdate: { file: TFile; finalTags: string[] }[]) => void | Promise<void>
+        settings: TagProcessorSettings & TagOrderSettings & TagSyntaxSettings & TagPresetSettings,
+        journal: TagEditJournal,
+        onSubmit: (filesToUpdate: TagUpdate[]) => void | Promise<void>,
+        initialRowTags: Map<TFile, string[]> = new Map()
     ) {
         super(app);
+        this.settings = settings;
+        this.journal = journal;
+        this.initialRowTags = initialRowTags;
 
         // Filter out valid .md files
         this.mdFiles = files.filter(
@@ -77,7 +144,7 @@ export class EditTagsModal extends Modal {
         const {contentEl} = this;
         this.modalEl.addClass("tt-bulk-tag-modal");
         contentEl.empty();
-        contentEl.createEl("h2", {text: "Bulk edit frontmatter tags"});
+        contentEl.createEl("h2", {text: "Bulk edit tags"});
 
         // 1) Warn user about non-markdown files
         if (this.nonMarkdownFiles.length > 0) {
@@ -95,94 +162,143 @@ export class EditTagsModal extends Modal {
         // 2) Read frontmatter from each valid MD file (may also skip invalid YAML)
         await this.loadFileTagData();
 
-        // 2a) If we found invalid YAML files, show a warning
-        if (this.invalidYamlFiles.length > 0) {
-            contentEl.createEl("p", {
-                cls: "warning",
-                text: `The following file(s) have invalid or duplicate YAML keys (won't be modified):`,
-            });
-            const ul = contentEl.createEl("ul");
-            this.invalidYamlFiles.forEach((f) => {
-                ul.createEl("li", {text: f.name});
-            });
-        }
+        // 2a) If we found invalid YAML files, show them with their error (and a fix, if we know one)
+        this.invalidYamlEl = contentEl.createDiv();
+        this.renderInvalidYamlFiles();
 
         // 3) Render the top input fields for "tags to add" / "tags to remove"
-        new Setting(contentEl)
+        // The preset dropdowns are added once the text inputs exist: `addText` calls back before the chain returns
+        let addTagsInput!: TextComponent;
+        const addTagsSetting = new Setting(contentEl)
             .setName("Add tags")
             .setDesc("Tags to add to files, separated by commas.")
             .addText(input => {
+                addTagsInput = input;
                 input.setPlaceholder("Tags to add (comma separated)")
                 .onChange(async (value) => {
-                    this.tagsToAdd = this.parseTagInput(value);
+                    const parsed = parseTagList(value, this.settings.tagNormalization);
+                    this.tagsToAdd = parsed.tags;
+                    this.addTagsErrorEl.setText(parsed.errors.join(" "));
                     this.updateProposedTags();
                 });
-                new ExistingTagSuggest(this.app, input.inputEl);
+                new ExistingTagSuggest(this.app, input.inputEl, this.settings);
             });
+        this.addPresetDropdown(addTagsSetting, addTagsInput);
+        this.addTagsErrorEl = addTagsSetting.descEl.createDiv({cls: "warning"});
 
-        new Setting(contentEl)
+        let removeTagsInput!: TextComponent;
+        const removeTagsSetting = new Setting(contentEl)
             .setName("Remove tags")
             .setDesc("Tags to remove from files, separated by commas.")
             .addText(input => {
+                removeTagsInput = input;
                 input.setPlaceholder("Tags to remove (comma separated)")
                 .onChange(async (value) => {
-                    this.tagsToRemove = this.parseTagInput(value);
+                    // Lenient, so tags already in the notes can be removed even if they aren't valid
+                    this.tagsToRemove = parseTagList(value, this.settings.tagNormalization, false).tags;
                     this.updateProposedTags();
                 });
-                new FileTagSuggest(this.app, input.inputEl, this.mdFiles);
+                new FileTagSuggest(this.app, input.inputEl, this.settings, this.mdFiles);
+            });
+        this.addPresetDropdown(removeTagsSetting, removeTagsInput);
+
+        const findReplaceSetting = new Setting(contentEl)
+            .setName("Find and replace")
+            .setDesc("Rewrite existing tags that match a pattern. Captured parts can be inserted with $1, $2 and so on; an empty result removes the tag.")
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption("regex", "Regex")
+                    .addOption("glob", "Glob")
+                    .setValue(this.findPatternKind)
+                    .onChange((value) => {
+                        this.findPatternKind = value as TagPatternKind;
+                        this.compileFindPattern();
+                        this.updateProposedTags();
+                    });
+            })
+            .addText(input => {
+                input.setPlaceholder("Find pattern")
+                    .onChange((value) => {
+                        this.findPatternText = value;
+                        this.compileFindPattern();
+                        this.updateProposedTags();
+                    });
+            })
+            .addText(input => {
+                input.setPlaceholder("Replace with")
+                    .onChange((value) => {
+                        this.replaceTemplate = value;
+                        this.updateProposedTags();
+                    });
+            });
+        this.findPatternErrorEl = findReplaceSetting.descEl.createDiv({cls: "warning"});
+
+        new Setting(contentEl)
+            .setName("Also edit inline tags")
+            .setDesc("Apply removals and find and replace to #tags in the note body too. Added tags always go to the frontmatter.")
+            .addToggle(toggle => {
+                toggle
+                    .setValue(this.editInlineTags)
+                    .onChange((value) => {
+                        this.editInlineTags = value;
+                        this.updateProposedTags();
+                    });
             });
         
-        // 4) Add "Select All" / "Deselect All" buttons
+        // 4) Filter box and "Select All" / "Deselect All" buttons, which act on the rows shown
+        new Setting(contentEl)
+            .setName("Filter files")
+            .setDesc("Show only files whose name, path or current tags contain every word.")
+            .addText(input => {
+                input.setPlaceholder("Name, path or tag")
+                    .onChange((value) => {
+                        this.filterText = value;
+                        this.renderRowOrder();
+                    });
+            });
+
         new Setting(contentEl)
             .setName("File selection")
-            .setDesc("Check or uncheck all files at once.")
+            .setDesc("Check or uncheck the files shown at once. Shift-click a checkbox to toggle a range.")
             .addButton((btn) =>
                 btn
                     .setButtonText("Select all")
-                    .onClick(() => {
-                        for (const tagData of this.fileTagData) {
-                            tagData.accepted = true;
-                            if (tagData.checkboxEl) {
-                                tagData.checkboxEl.checked = true;
-                            }
-                        }
-                    })
+                    .onClick(() => this.visibleRows().forEach((tagData) => this.setAccepted(tagData, true)))
             )
             .addButton((btn) =>
                 btn
                     .setButtonText("Deselect all")
-                    .onClick(() => {
-                        for (const tagData of this.fileTagData) {
-                            tagData.accepted = false;
-                            if (tagData.checkboxEl) {
-                                tagData.checkboxEl.checked = false;
-                            }
-                        }
-                    })
+                    .onClick(() => this.visibleRows().forEach((tagData) => this.setAccepted(tagData, false)))
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Select changed only")
+                    .setTooltip("Check only the files that the current edits would modify")
+                    .onClick(() => this.visibleRows().forEach((tagData) => {
+                        this.setAccepted(tagData, this.wouldChange(tagData));
+                    }))
             );
 
+        this.conflictMessageEl = contentEl.createEl("p", {cls: "warning"});
+
         // 5) Create the container for our "table"
         const tableContainer = contentEl.createEl("div", {
             cls: "bulk-tag-table-container",
         });
+        this.tableContainerEl = tableContainer;
 
         // Header row
         const headerRow = tableContainer.createEl("div", {
             cls: "bulk-tag-table-row table-header-row",
         });
         headerRow.createEl("span", {cls: "cb-col"});
+        this.createSortHeader(headerRow, "name", "File name", "file-name-col");
+        this.createSortHeader(headerRow, "current", "Current tags", "current-tags-col");
         headerRow.createEl("span", {
-            text: "File name",
-            cls: "file-name-col header-col",
-        });
-        headerRow.createEl("span", {
-            text: "Current tags",
-            cls: "current-tags-col header-col",
-        });
-        headerRow.createEl("span", {
-            text: "Proposed tags",
-            cls: "proposed-tags-col header-col",
+            text: "Inline tags",
+            cls: "inline-tags-col header-col",
         });
+        this.createSortHeader(headerRow, "proposed", "Proposed tags", "proposed-tags-col");
 
         // 6) Render each file row
         for (const tagData of this.fileTagData) {
@@ -194,7 +310,7 @@ export class EditTagsModal extends Modal {
         buttonContainer.createEl('button', {
             text: 'Apply changes',
             cls: 'mod-cta'
-        }).addEventListener('click', () => this.applyChanges());
+        }).addEventListener('click', () => void this.applyChanges());
         
         buttonContainer.createEl('button', {
             text: 'Cancel'
@@ -206,123 +322,577 @@ export class EditTagsModal extends Modal {
     }
 
     /**
-     * Loads frontmatter from each MD file. If YAML is invalid, we skip that file.
+     * Adds an "Insert preset" dropdown that appends a tag preset to the input (if there are presets).
+     */
+    private addPresetDropdown(setting: Setting, input: TextComponent) {
+        const presets = this.settings.tagPresets;
+        if (presets.length === 0) return;
+
+        setting.addDropdown(dropdown => {
+            dropdown.addOption("", "Insert preset");
+            for (const preset of presets) {
+                dropdown.addOption(preset.id, preset.name);
+            }
+            dropdown.onChange((id) => {
+                const preset = presets.find((p) => p.id === id);
+                dropdown.setValue("");
+                if (!preset) return;
+                const current = input.getValue().replace(/[,\s]+$/, "");
+                input.setValue([current, ...preset.tags].filter((value) => value.length > 0).join(", "));
+                input.onChanged();
+            });
+        });
+    }
+
+    /**
+     * Loads frontmatter and inline tags from each MD file. If YAML is invalid, we skip that file.
      */
     private async loadFileTagData() {
         this.fileTagData = [];
         this.invalidYamlFiles = [];
 
         for (const file of this.mdFiles) {
-            const currentTags = await readFileTags(this.app, file);
-
-            const proposedTags = [...currentTags].sort();
-            this.fileTagData.push({
-                file,
-                currentTags,
-                proposedTags,
-                accepted: true,
-            });
+            const {snapshot, problem} = await this.readSnapshot(file);
+            if (problem) {
+                this.invalidYamlFiles.push({file, problem});
+                continue;
+            }
+            this.fileTagData.push(this.createFileTagData(file, snapshot));
         }
     }
 
+    private createFileTagData(file: TFile, snapshot: FileSnapshot): RenderableFileTagData {
+        const rowTagsToAdd = (this.initialRowTags.get(file) ?? []).filter((tag) => !includesTag(snapshot.currentTags, tag));
+        return {
+            file,
+            ...snapshot,
+            proposedTags: orderTags([...snapshot.currentTags, ...rowTagsToAdd], this.settings.tagOrder),
+            accepted: true,
+            force: false,
+            rowTagsToAdd,
+            rowTagsToRemove: [],
+        };
+    }
+
+    /**
+     * Reads a file's current tags, plus what is needed to notice later edits (mtime and content hash).
+     * `problem` is set if the frontmatter is not valid YAML.
+     */
+    private async readSnapshot(file: TFile): Promise<{snapshot: FileSnapshot; problem: YamlProblem | null}> {
+        const content = await this.app.vault.read(file);
+        return {
+            snapshot: {
+                currentTags: collectFrontmatterTags(parseFrontmatter(content), getTagPropertyNames(this.settings)),
+                inlineTags: findInlineTags(content),
+                mtime: file.stat.mtime,
+                contentHash: hashContent(content),
+            },
+            problem: validateFrontmatter(content, getTagPropertyNames(this.settings)),
+        };
+    }
+
+    /**
+     * Lists the files with invalid YAML, each with the parser's error, its line and a fix button when possible.
+     */
+    private renderInvalidYamlFiles() {
+        const el = this.invalidYamlEl;
+        el.empty();
+        if (this.invalidYamlFiles.length === 0) return;
+
+        el.createEl("p", {
+            cls: "warning",
+            text: `The following file(s) have invalid or duplicate YAML keys (won't be modified):`,
+        });
+        const ul = el.createEl("ul", {cls: "tt-invalid-yaml"});
+        for (const invalid of this.invalidYamlFiles) {
+            const {line, message, fix} = invalid.problem;
+            const li = ul.createEl("li");
+            li.appendText(`${invalid.file.name}: ${line !== null ? `line ${line}, ` : ""}${message}`);
+            if (fix) {
+                li.createEl("button", {text: fix.label}).addEventListener("click", () => {
+                    void this.fixInvalidYaml(invalid);
+                });
+            }
+        }
+    }
+
+    /**
+     * Applies the suggested fix (undoable like any bulk edit); if the file parses afterwards,
+     * it joins the table.
+     */
+    private async fixInvalidYaml(invalid: InvalidYamlFile) {
+        const fix = invalid.problem.fix;
+        if (!fix) return;
+        const result = await applyFrontmatterFixes(this.app, [{file: invalid.file, fix}], this.settings, {
+            journal: this.journal,
+            description: `Fix YAML in "${invalid.file.path}"`,
+        });
+        if (result.failed.length > 0) {
+            new Notice(`Could not fix the YAML in ${invalid.file.path}.`);
+            return;
+        }
+
+        const {snapshot, problem} = await this.readSnapshot(invalid.file);
+        if (problem) {
+            invalid.problem = problem;
+        } else {
+            this.invalidYamlFiles = this.invalidYamlFiles.filter((f) => f !== invalid);
+            const tagData = this.createFileTagData(invalid.file, snapshot);
+            this.fileTagData.push(tagData);
+            this.renderFileRow(this.tableContainerEl, tagData);
+            this.updateProposedTags();
+            this.renderRowOrder();
+        }
+        this.renderInvalidYamlFiles();
+    }
+
     /**
      * Renders a single "row" for the given file's data, storing references to the
      * checkbox and proposed tags elements directly in the tagData object.
      */
     private renderFileRow(containerEl: HTMLElement, tagData: RenderableFileTagData) {
         const rowEl = containerEl.createEl("div", {cls: "bulk-tag-table-row"});
+        tagData.rowEl = rowEl;
 
         // Checkbox
         const cbContainer = rowEl.createEl("div", {cls: "cb-col"});
         const checkbox = cbContainer.createEl("input", {type: "checkbox"});
         checkbox.checked = tagData.accepted;
-        checkbox.onchange = () => {
-            tagData.accepted = checkbox.checked;
-        };
+        checkbox.addEventListener("click", (evt) => {
+            this.toggleAccepted(tagData, checkbox.checked, evt.shiftKey);
+        });
         // Store a reference for later (no casting needed).
         tagData.checkboxEl = checkbox;
 
-        // File name
-        rowEl.createEl("span", {
+        // File name, with room for a conflict message
+        const fileNameEl = rowEl.createEl("span", {
             text: tagData.file.name,
             cls: "file-name-col",
         });
+        tagData.conflictEl = fileNameEl.createDiv({cls: "tt-conflict"});
 
         // Current tags
-        const currTags = rowEl.createEl("span", {cls: "current-tags-col"});
-        tagData.currentTags.forEach(t => currTags.createEl("a", {cls: "tag", text: t, attr: {disabled: true}}));
+        tagData.currentEl = rowEl.createEl("span", {cls: "current-tags-col"});
+        this.renderCurrentTags(tagData);
+
+        // Inline tags
+        tagData.inlineEl = rowEl.createEl("span", {cls: "inline-tags-col"});
+        this.renderInlineTags(tagData);
+
+        // Proposed tags, editable for this row only, with an input to add tags to just this file
+        const proposedCol = rowEl.createEl("span", {cls: "proposed-tags-col"});
+        tagData.proposedEl = proposedCol.createSpan();
+        this.renderProposedTags(tagData);
+
+        const rowAddInput = proposedCol.createEl("input", {
+            type: "text",
+            cls: "tt-row-add-tag",
+            attr: {placeholder: "Add to this note"},
+        });
+        new ExistingTagSuggest(this.app, rowAddInput, this.settings);
+        rowAddInput.addEventListener("change", () => {
+            const parsed = parseTagList(rowAddInput.value, this.settings.tagNormalization);
+            this.addRowTags(tagData, parsed.tags);
+            // Keep rejected input in the field, with the reason as its tooltip
+            const error = parsed.errors.join(" ");
+            rowAddInput.toggleClass("tt-input-invalid", error.length > 0);
+            rowAddInput.title = error;
+            if (error.length === 0) {
+                rowAddInput.value = "";
+            }
+        });
+    }
+
+    /**
+     * Renders the proposed tags as chips: clicking one removes it from this file only. Tags removed
+     * that way stay visible, struck through, so a second click brings them back.
+     */
+    private renderProposedTags(tagData: RenderableFileTagData) {
+        const proposedEl = tagData.proposedEl;
+        if (!proposedEl) return;
+        proposedEl.empty();
+
+        const rowRemoved = tagData.rowTagsToRemove.filter((t) => !includesTag(tagData.proposedTags, t));
+        for (const tag of [...tagData.proposedTags, ...rowRemoved]) {
+            const removed = includesTag(rowRemoved, tag);
+            const tagEl = proposedEl.createEl("a", {
+                cls: "tag tt-proposed-tag",
+                text: tag,
+                attr: {title: removed ? "Keep in this note" : "Remove from this note"},
+            });
+            if (removed) {
+                tagEl.addClass("tt-tag-removed");
+            }
+            tagEl.addEventListener("click", (evt) => {
+                evt.preventDefault();
+                this.toggleRowTag(tagData, tag);
+            });
+        }
+    }
+
+    /**
+     * Removes a proposed tag from one file, or undoes an earlier per-row removal.
+     */
+    private toggleRowTag(tagData: RenderableFileTagData, tag: string) {
+        if (includesTag(tagData.rowTagsToRemove, tag)) {
+            tagData.rowTagsToRemove = tagData.rowTagsToRemove.filter((t) => !isSameTag(t, tag));
+        } else if (includesTag(tagData.rowTagsToAdd, tag)) {
+            tagData.rowTagsToAdd = tagData.rowTagsToAdd.filter((t) => !isSameTag(t, tag));
+        } else {
+            tagData.rowTagsToRemove.push(tag);
+        }
+        this.updateRowProposedTags(tagData);
+    }
+
+    private addRowTags(tagData: RenderableFileTagData, tags: string[]) {
+        if (tags.length === 0) return;
+        tagData.rowTagsToRemove = tagData.rowTagsToRemove.filter((t) => !includesTag(tags, t));
+        for (const tag of tags) {
+            if (!includesTag(tagData.rowTagsToAdd, tag)) {
+                tagData.rowTagsToAdd.push(tag);
+            }
+        }
+        this.updateRowProposedTags(tagData);
+    }
+
+    private renderCurrentTags(tagData: RenderableFileTagData) {
+        const currentEl = tagData.currentEl;
+        if (!currentEl) return;
+        currentEl.empty();
+        tagData.currentTags.forEach(t => currentEl.createEl("a", {cls: "tag", text: t, attr: {disabled: true}}));
+    }
 
-        // Proposed tags
-        const propTags = rowEl.createEl("span", {cls: "proposed-tags-col"});
-        tagData.proposedTags.forEach(t => propTags.createEl("a", {cls: "tag", text: t, attr: {disabled: true}}));
+    /**
+     * Renders a file's inline tags, each with its line number as a tooltip. While inline
+     * editing is on, removed tags are struck through and rewritten ones show their new name.
+     */
+    private renderInlineTags(tagData: RenderableFileTagData) {
+        const inlineEl = tagData.inlineEl;
+        if (!inlineEl) return;
+        inlineEl.empty();
+
+        for (const match of tagData.inlineTags) {
+            const replacement = this.editInlineTags ? this.replaceInlineTag(tagData, match.tag) : match.tag;
+            const tagEl = inlineEl.createEl("a", {
+                cls: "tag",
+                text: match.tag,
+                attr: {disabled: true, title: `Line ${match.line + 1}`},
+            });
+            if (replacement === null) {
+                tagEl.addClass("tt-tag-removed");
+            } else if (replacement !== match.tag) {
+                inlineEl.appendText(" → ");
+                inlineEl.createEl("a", {cls: "tag", text: replacement, attr: {disabled: true}});
+            }
+        }
+    }
 
-        // Store a reference to update text later
-        tagData.proposedEl = propTags;
+    /**
+     * What an inline tag of the row becomes under the current find & replace and remove inputs
+     * and the row's own overrides (`null` = removed). Mirrors the order used for frontmatter tags.
+     */
+    private replaceInlineTag(tagData: FileTagData, tag: string): string | null {
+        let newTag: string | null = tag;
+        if (this.findPattern) {
+            newTag = this.replaceByPattern(tag);
+        }
+        if (newTag !== null && this.isRemovedFromRow(tagData, newTag)) {
+            newTag = null;
+        }
+        return newTag;
+    }
+
+    /**
+     * Whether the tag is removed from the row: by the remove input (unless the row adds it back)
+     * or by the row itself.
+     */
+    private isRemovedFromRow(tagData: FileTagData, tag: string): boolean {
+        return (includesTag(this.tagsToRemove, tag) && !includesTag(tagData.rowTagsToAdd, tag)) ||
+            includesTag(tagData.rowTagsToRemove, tag);
+    }
+
+    /**
+     * Applies find & replace to one tag, normalizing the result like typed tags. A result that
+     * isn't a valid tag leaves the tag as it is and is reported under the pattern.
+     */
+    private replaceByPattern(tag: string): string | null {
+        if (!this.findPattern) return tag;
+        const replaced = replaceTagByPattern(tag, this.findPattern, this.replaceTemplate);
+        if (replaced === null || replaced === tag) return replaced;
+
+        const normalized = normalizeTag(replaced, this.settings.tagNormalization);
+        if (normalized.length === 0) return null;
+        const error = findTagSyntaxError(normalized);
+        if (error) {
+            this.invalidReplacements.set(normalized, error);
+            return tag;
+        }
+        return normalized;
+    }
+
+    /**
+     * Compiles the find pattern, remembering the error if it is invalid (shown by updateProposedTags).
+     */
+    private compileFindPattern() {
+        this.findPattern = null;
+        this.findPatternError = null;
+        if (!this.findPatternText) return;
+
+        try {
+            this.findPattern = compileTagPattern(this.findPatternText, this.findPatternKind);
+        } catch (e) {
+            this.findPatternError = `Invalid pattern: ${e instanceof Error ? e.message : String(e)}`;
+        }
     }
 
     /**
      * Recalculates the proposedTags for each file after user modifies
-     * "tags to add" or "tags to remove." Also updates the UI text.
+     * "tags to add", "tags to remove" or the find & replace pattern. Also updates the UI text,
+     * including the replacements that aren't valid tags.
      */
     private updateProposedTags() {
+        this.invalidReplacements.clear();
         for (const tagData of this.fileTagData) {
-            let newTagSet = [...tagData.currentTags];
+            this.updateRowProposedTags(tagData);
+        }
 
-            // Add any missing new tags
-            for (const tag of this.tagsToAdd) {
-                if (!newTagSet.includes(tag)) {
-                    newTagSet.push(tag);
+        const replacementErrors = [...this.invalidReplacements.values()];
+        this.findPatternErrorEl.setText(this.findPatternError ?? (replacementErrors.length > 0
+            ? `Not applied, these replacements aren't valid tags: ${replacementErrors.join(" ")}`
+            : ""));
+    }
+
+    /**
+     * Applies find & replace, the add/remove inputs and then the row's own overrides, so
+     * per-row edits survive later changes to the inputs. The result follows the tag order setting;
+     * the row's inline tags are re-rendered with the same edits.
+     */
+    private updateRowProposedTags(tagData: RenderableFileTagData) {
+        let newTagSet = [...tagData.currentTags];
+
+        // Rewrite tags matching the find pattern, dropping duplicates and emptied tags
+        if (this.findPattern) {
+            const replaced: string[] = [];
+            for (const tag of newTagSet) {
+                const newTag = this.replaceByPattern(tag);
+                if (newTag !== null && !includesTag(replaced, newTag)) {
+                    replaced.push(newTag);
                 }
             }
+            newTagSet = replaced;
+        }
 
-            // Remove tags that appear in tagsToRemove
-            newTagSet = newTagSet.filter((t) => !this.tagsToRemove.includes(t));
-
-            // Sort the resulting tags.
-            newTagSet.sort();
-
-            // Update proposedTags
-            tagData.proposedTags = newTagSet;
-
-            // Update the UI if we have a reference
-            if (tagData.proposedEl !== undefined) {
-                // Clear old tags
-                tagData.proposedEl.empty();
-
-                // Rebuild each tag as a disabled <a> element
-                newTagSet.forEach((t) => {
-                    tagData.proposedEl?.createEl("a", {
-                        cls: "tag",
-                        text: t,
-                        attr: { disabled: true },
-                    });
-                });
+        // Add any missing new tags; a tag already present in another casing keeps the note's spelling
+        for (const tag of [...this.tagsToAdd, ...tagData.rowTagsToAdd]) {
+            if (!includesTag(newTagSet, tag)) {
+                newTagSet.push(tag);
             }
         }
+
+        // Remove tags that appear in tagsToRemove (unless this row adds them back) or in the row's removals
+        newTagSet = newTagSet.filter((t) => !this.isRemovedFromRow(tagData, t));
+
+        tagData.proposedTags = orderTags(newTagSet, this.settings.tagOrder);
+        this.renderProposedTags(tagData);
+        this.renderInlineTags(tagData);
     }
 
-    applyChanges() {
+    async applyChanges() {
+        if (this.invalidReplacements.size > 0) {
+            new Notice("Some find and replace results aren't valid tags. Change the pattern or the replacement first.");
+            return;
+        }
 
-        
         // Gather the final set of files that are accepted
-        const updates = this.fileTagData
-            .filter((td) => td.accepted)
-            .map((td) => ({
-                file: td.file,
-                finalTags: td.proposedTags,
-            }));
-
-        if (updates.length === 0) {
+        const accepted = this.fileTagData.filter((td) => td.accepted);
+
+        if (accepted.length === 0) {
             new Notice("No files selected for update.");
             this.close();
             return;
         }
 
+        // Don't silently overwrite notes that were edited while the modal was open
+        const conflicts = await this.findConflicts(accepted);
+        this.conflictMessageEl.setText("");
+        if (conflicts.length > 0) {
+            conflicts.forEach((td) => this.flagConflict(td));
+            this.conflictMessageEl.setText(
+                `${conflicts.length} file(s) changed since the preview. ` +
+                "Re-preview, skip or force each highlighted row, then apply again."
+            );
+            return;
+        }
+
+        const updates: TagUpdate[] = accepted.map((td) => ({
+            file: td.file,
+            finalTags: td.proposedTags,
+            inlineTagReplacer: this.editInlineTags && td.inlineTags.length > 0
+                ? (tag: string) => this.replaceInlineTag(td, tag)
+                : undefined,
+            // The writer re-checks this, in case the note changes between now and the write
+            expectedHash: td.force ? undefined : td.contentHash,
+        }));
+
         this.close();
         void this.onSubmit(updates);
     }
 
-    private parseTagInput(input: string): string[] {
-        return input.split(/[,\s]+/).filter(tag => tag.trim().length > 0).map(tag => tag.trim());
+    /**
+     * Returns the rows whose note changed since it was read. Only notes with a new
+     * modification time are read again, and only a different content counts.
+     */
+    private async findConflicts(rows: RenderableFileTagData[]): Promise<RenderableFileTagData[]> {
+        const conflicts: RenderableFileTagData[] = [];
+        for (const td of rows) {
+            if (td.force || td.file.stat.mtime === td.mtime) continue;
+            const content = await this.app.vault.read(td.file);
+            if (hashContent(content) !== td.contentHash) {
+                conflicts.push(td);
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Highlights a conflicting row and offers to re-preview, skip or force it.
+     */
+    private flagConflict(td: RenderableFileTagData) {
+        const conflictEl = td.conflictEl;
+        if (!conflictEl) return;
+        td.rowEl?.addClass("tt-row-conflict");
+        conflictEl.empty();
+        conflictEl.createDiv({text: "Changed since the preview."});
+
+        conflictEl.createEl("button", {text: "Re-preview"}).addEventListener("click", () => {
+            void this.repreviewRow(td);
+        });
+        conflictEl.createEl("button", {text: "Skip"}).addEventListener("click", () => {
+            this.setAccepted(td, false);
+            this.clearConflict(td);
+        });
+        conflictEl.createEl("button", {text: "Force"}).addEventListener("click", () => {
+            td.force = true;
+            this.clearConflict(td);
+            conflictEl.setText("Will overwrite the newer changes.");
+        });
+    }
+
+    private clearConflict(td: RenderableFileTagData) {
+        td.rowEl?.removeClass("tt-row-conflict");
+        td.conflictEl?.empty();
+    }
+
+    /**
+     * Reads the note again and recomputes its proposed tags from the new content.
+     */
+    private async repreviewRow(td: RenderableFileTagData) {
+        const {snapshot, problem} = await this.readSnapshot(td.file);
+        if (problem) {
+            this.setAccepted(td, false);
+            td.conflictEl?.setText(`The frontmatter is no longer valid: ${problem.message}`);
+            return;
+        }
+        Object.assign(td, snapshot);
+        this.clearConflict(td);
+        this.renderCurrentTags(td);
+        this.updateProposedTags();
+    }
+
+    private setAccepted(tagData: RenderableFileTagData, accepted: boolean) {
+        tagData.accepted = accepted;
+        if (tagData.checkboxEl) {
+            tagData.checkboxEl.checked = accepted;
+        }
+    }
+
+    /**
+     * Checks or unchecks a row; with shift held, every shown row between it and the
+     * previously clicked row gets the same state.
+     */
+    private toggleAccepted(tagData: RenderableFileTagData, accepted: boolean, extendRange: boolean) {
+        const rows = this.visibleRows();
+        const index = rows.indexOf(tagData);
+        const anchor = this.lastToggledRow ? rows.indexOf(this.lastToggledRow) : -1;
+        const range = extendRange && anchor >= 0 && index >= 0
+            ? rows.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+            : [tagData];
+        range.forEach((row) => this.setAccepted(row, accepted));
+        this.lastToggledRow = tagData;
+    }
+
+    /**
+     * Whether applying would modify the note: different frontmatter tags or order, or (with inline
+     * editing on) an inline tag that would be removed or rewritten.
+     */
+    private wouldChange(tagData: FileTagData): boolean {
+        const current = tagData.currentTags;
+        const proposed = tagData.proposedTags;
+        if (current.length !== proposed.length || current.some((tag, i) => tag !== proposed[i])) {
+            return true;
+        }
+        return this.editInlineTags && tagData.inlineTags.some((match) => this.replaceInlineTag(tagData, match.tag) !== match.tag);
+    }
+
+    private createSortHeader(headerRow: HTMLElement, column: SortColumn, text: string, cls: string) {
+        const headerEl = headerRow.createEl("span", {
+            text,
+            cls: `${cls} header-col tt-sortable`,
+            attr: {title: "Sort by this column"},
+        });
+        headerEl.addEventListener("click", () => {
+            this.sortDescending = this.sortColumn === column ? !this.sortDescending : false;
+            this.sortColumn = column;
+            this.renderRowOrder();
+        });
+        this.sortHeaderEls.set(column, headerEl);
+    }
+
+    /**
+     * The rows that match the filter, in the chosen sort order.
+     */
+    private visibleRows(): RenderableFileTagData[] {
+        return this.sortedRows().filter((tagData) => this.matchesFilter(tagData));
+    }
+
+    private sortedRows(): RenderableFileTagData[] {
+        const column = this.sortColumn;
+        if (!column) return this.fileTagData;
+
+        const sortKey = (tagData: FileTagData): string => {
+            switch (column) {
+                case "name": return tagData.file.name;
+                case "current": return tagData.currentTags.join(" ");
+                case "proposed": return tagData.proposedTags.join(" ");
+            }
+        };
+        const direction = this.sortDescending ? -1 : 1;
+        return [...this.fileTagData].sort((a, b) =>
+            direction * sortKey(a).localeCompare(sortKey(b), undefined, {numeric: true, sensitivity: "base"})
+        );
+    }
+
+    private matchesFilter(tagData: FileTagData): boolean {
+        const terms = this.filterText.toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+        const haystack = [tagData.file.name, tagData.file.path, ...tagData.currentTags.map((tag) => `#${tag}`)]
+            .join("\n")
+            .toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+    }
+
+    /**
+     * Re-orders the row elements by the sort column, hides rows that don't match the filter
+     * and marks the sorted header.
+     */
+    private renderRowOrder() {
+        for (const tagData of this.sortedRows()) {
+            if (!tagData.rowEl) continue;
+            this.tableContainerEl.appendChild(tagData.rowEl);
+            tagData.rowEl.toggle(this.matchesFilter(tagData));
+        }
+        for (const [column, headerEl] of this.sortHeaderEls) {
+            headerEl.toggleClass("tt-sorted", column === this.sortColumn);
+            headerEl.toggleClass("tt-sorted-desc", column === this.sortColumn && this.sortDescending);
+        }
     }
 }
\ No newline at end of file
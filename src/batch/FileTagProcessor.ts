@@ -1,34 +1,183 @@
 import { App, getFrontMatterInfo, parseYaml, TFile } from "obsidian";
-import * as yaml from "js-yaml";
-
-/** Possible array styles for tags. */
-export type TagListStyle = "hyphens" | "brackets";
+import { setFrontmatterProperty, TagListStyle } from "./FrontmatterWriter";
+import { collectFrontmatterTags, findTagPropertyKeys, getTagPropertyNames, TagPropertySettings } from "./TagReader";
+import { createJournalRecord, JournalFileRecord, TagEditJournal } from "./TagEditJournal";
+import { appendInlineTags, InlineTagReplacer, replaceInlineTags } from "./InlineTagParser";
+import { fixFrontmatter, YamlFix } from "./YamlValidator";
 
 /** Configuration for how to dump the frontmatter. */
-export interface TagProcessorSettings {
+export interface TagProcessorSettings extends TagPropertySettings {
     tagListStyle: TagListStyle; // e.g., "hyphens" => block style, "brackets" => inline style
 }
 
+/** Optional behavior for a single `applyTagUpdates` run. */
+export interface TagUpdateOptions {
+    journal?: TagEditJournal; // records each modified file's previous state for undo
+    description?: string;     // label of the journal entry, e.g. "Edit tags on 3 file(s)"
+    signal?: AbortSignal;     // stops the run before the next file once aborted
+    onProgress?: (done: number, total: number) => void; // called after every chunk of files
+}
+
+/**
+ * What happened to each file of a run. Every Markdown file of the input ends up in exactly one list.
+ */
+export interface TagUpdateResult {
+    modified: TFile[];
+    unchanged: TFile[];    // processed, but the content was already as requested
+    conflicted: TFile[];   // changed since the preview (see `expectedHash`), left alone
+    failed: TFile[];       // the write threw, e.g. the file was deleted meanwhile
+    notProcessed: TFile[]; // never reached because the run was cancelled
+    cancelled: boolean;
+}
+
+/** Files written between two yields to the UI. */
+const CHUNK_SIZE = 20;
+
+/**
+ * A single file's pending change.
+ * `finalTags` replaces the frontmatter tags; leave it undefined to keep the frontmatter untouched.
+ * `inlineTagReplacer`, if given, is applied to every inline `#tag` in the note body.
+ * `appendInlineTags` are written as a line of `#tags` at the end of the note.
+ * `expectedHash`, if given, is the `hashContent()` of the note when the change was previewed;
+ * the file is left alone (and reported as conflicted) if its content differs by now.
+ */
+export interface TagUpdate {
+    file: TFile;
+    finalTags?: string[];
+    inlineTagReplacer?: InlineTagReplacer;
+    appendInlineTags?: string[];
+    expectedHash?: string;
+}
+
+/**
+ * A single file's pending change to an arbitrary frontmatter property.
+ * `property` is the key as spelled in that note; an undefined `value` removes it.
+ */
+export interface PropertyUpdate {
+    file: TFile;
+    property: string;
+    value: unknown;
+    expectedHash?: string;
+}
+
 /**
  * Applies final tag arrays to each file’s frontmatter.
  * If a file has no frontmatter, it creates one.
- * If the array is empty, it removes the `tags` field.
+ * The tags are written to `settings.tagWriteProperty`; other recognized tag properties
+ * (see `getTagPropertyNames()`) are folded into it, so no old tags are left behind.
+ * If the array is empty, it removes the tag properties.
+ * Inline tags in the body are rewritten (or appended) as well when an update asks for it.
  *
  * @param app      - Obsidian App reference
- * @param updates  - Array of `{ file, finalTags }`
+ * @param updates  - Array of `{ file, finalTags, inlineTagReplacer, appendInlineTags }`
  * @param settings - Controls how arrays are dumped (block vs inline)
- * @returns The number of files actually modified
+ * @param options  - Journal to record the operation in (for undo), cancellation and progress
+ * @returns Which files were modified, left unchanged, failed or not reached
  */
 export async function applyTagUpdates(
     app: App,
-    updates: { file: TFile; finalTags: string[] }[],
-    settings: TagProcessorSettings
-): Promise<number> {
-    let modifiedCount = 0;
+    updates: TagUpdate[],
+    settings: TagProcessorSettings,
+    options: TagUpdateOptions = {}
+): Promise<TagUpdateResult> {
+    return processFiles(
+        app,
+        updates,
+        (oldContent, { finalTags, inlineTagReplacer, appendInlineTags: tagsToAppend }) => {
+            let newContent = oldContent;
+            if (finalTags !== undefined) {
+                newContent = writeFrontmatterTags(newContent, finalTags, settings);
+            }
+            if (inlineTagReplacer) {
+                newContent = replaceInlineTags(newContent, inlineTagReplacer);
+            }
+            if (tagsToAppend) {
+                newContent = appendInlineTags(newContent, tagsToAppend);
+            }
+            return newContent;
+        },
+        options,
+        (count) => options.description ?? `Edit tags on ${count} file(s)`
+    );
+}
+
+/**
+ * Sets (or, with an undefined `value`, removes) a frontmatter property in each file.
+ * Uses the same writer as `applyTagUpdates`: only the property's node is rewritten,
+ * and a frontmatter block is created when a file has none.
+ *
+ * @param app      - Obsidian App reference
+ * @param updates  - Array of `{ file, property, value }`
+ * @param settings - Controls how arrays are dumped (block vs inline)
+ * @param options  - Journal to record the operation in (for undo), cancellation and progress
+ * @returns Which files were modified, left unchanged, failed or not reached
+ */
+export async function applyPropertyUpdates(
+    app: App,
+    updates: PropertyUpdate[],
+    settings: Pick<TagProcessorSettings, "tagListStyle">,
+    options: TagUpdateOptions = {}
+): Promise<TagUpdateResult> {
+    return processFiles(
+        app,
+        updates,
+        (oldContent, { property, value }) =>
+            writeFrontmatterProperty(oldContent, property, value, settings.tagListStyle),
+        options,
+        (count) => options.description ?? `Edit properties on ${count} file(s)`
+    );
+}
+
+/**
+ * Applies a suggested YAML fix (see `validateFrontmatter`) to each file's frontmatter,
+ * recorded in the journal like any other bulk write so it can be undone.
+ */
+export async function applyFrontmatterFixes(
+    app: App,
+    updates: Array<{ file: TFile; fix: YamlFix }>,
+    settings: Pick<TagProcessorSettings, "tagListStyle">,
+    options: TagUpdateOptions = {}
+): Promise<TagUpdateResult> {
+    return processFiles(
+        app,
+        updates,
+        (oldContent, { fix }) => fixFrontmatter(oldContent, fix, settings.tagListStyle),
+        options,
+        (count) => options.description ?? `Fix YAML in ${count} file(s)`
+    );
+}
+
+/**
+ * Runs `transform` over each Markdown file's content and records every modified file
+ * in the journal (if any), labelled by `describe`.
+ * Files are written in chunks; between chunks progress is reported and the UI gets a
+ * chance to update. An aborted `options.signal` stops the run before the next file.
+ */
+async function processFiles<T extends { file: TFile; expectedHash?: string }>(
+    app: App,
+    updates: T[],
+    transform: (content: string, update: T) => string,
+    options: TagUpdateOptions,
+    describe: (modifiedCount: number) => string
+): Promise<TagUpdateResult> {
+    // Only modify .md files
+    const mdUpdates = updates.filter((update) => update.file.extension === "md");
+    const result: TagUpdateResult = {
+        modified: [], unchanged: [], conflicted: [], failed: [], notProcessed: [], cancelled: false,
+    };
+    const journalRecords: JournalFileRecord[] = [];
 
-    for (const { file, finalTags } of updates) {
-        // Only modify .md files
-        if (file.extension !== "md") continue;
+    for (let i = 0; i < mdUpdates.length; i++) {
+        if (options.signal?.aborted) {
+            result.cancelled = true;
+            result.notProcessed = mdUpdates.slice(i).map((update) => update.file);
+            break;
+        }
+
+        const update = mdUpdates[i];
+        const file = update.file;
+        let modified = false;
+        let conflicted = false;
 
         // NOTES FROM CODE REVIEW:
         // Normally I'd recommend using FileManager.processFrontMatter since you are only updating frontmatter,
@@ -39,57 +188,127 @@ export async function applyTagUpdates(
         // I plan on keeping it this way for now to support the bracket syntax for lists in YAML (which is what I
         // personally prefer).  I will keep an eye out if this becomes an issue.
 
-        await app.vault.process(file, (oldContent: string): string => {
-            const frontMatterInfo = getFrontMatterInfo(oldContent);
-            let newContent: string | undefined;
-
-            if (frontMatterInfo.exists) {
-                // Frontmatter exists => update the tags field
-                const fmData = (parseYaml(frontMatterInfo.frontmatter) ?? {}) as Record<string, unknown>;
-                fmData.tags = finalTags.length > 0 ? finalTags : undefined;
-
-                const newYaml = dumpYaml(fmData, settings.tagListStyle);
-                newContent =
-                    oldContent.slice(0, frontMatterInfo.from) +
-                    `${newYaml}\n` +
-                    oldContent.slice(frontMatterInfo.to);
-            } else {
-                // No frontmatter => create one only if finalTags is non-empty
-                if (finalTags.length === 0) {
-                    // Nothing to do, no change
+        try {
+            await app.vault.process(file, (oldContent: string): string => {
+                // Don't overwrite changes made since the preview
+                if (update.expectedHash !== undefined && hashContent(oldContent) !== update.expectedHash) {
+                    conflicted = true;
+                    return oldContent;
+                }
+
+                const newContent = transform(oldContent, update);
+
+                // If nothing changed or the content is identical, return the old content
+                if (newContent === oldContent) {
                     return oldContent;
                 }
-                const fmData = { tags: finalTags.length > 0 ? finalTags : undefined };
-                const newYaml = dumpYaml(fmData, settings.tagListStyle);
-                newContent = `---\n${newYaml}\n---\n${oldContent}`;
-            }
 
-            // If nothing changed or the content is identical, return the old content
-            if (!newContent || newContent === oldContent) {
-                return oldContent;
+                // If there's a change, remember it and return the new content
+                modified = true;
+                journalRecords.push(createJournalRecord(file.path, oldContent, newContent));
+                return newContent;
+            });
+            (conflicted ? result.conflicted : modified ? result.modified : result.unchanged).push(file);
+        } catch (e) {
+            console.error(`Tag Tactician: failed to update ${file.path}`, e);
+            result.failed.push(file);
+        }
+
+        if ((i + 1) % CHUNK_SIZE === 0 || i + 1 === mdUpdates.length) {
+            options.onProgress?.(i + 1, mdUpdates.length);
+            // Yield so Obsidian can repaint and handle input (e.g. the cancel button)
+            await sleep(0);
+        }
+    }
+
+    if (options.journal) {
+        await options.journal.record(describe(journalRecords.length), journalRecords);
+    }
+
+    return result;
+}
+
+/**
+ * A short fingerprint of a note's content, used to detect edits made after a preview.
+ */
+export function hashContent(content: string): string {
+    let hash = 5381;
+    for (let i = 0; i < content.length; i++) {
+        hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+    }
+    return `${content.length}:${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Returns `content` with its frontmatter tags set to `finalTags`.
+ * Only the tag property nodes are rewritten; the rest of the frontmatter is kept as written.
+ */
+function writeFrontmatterTags(content: string, finalTags: string[], settings: TagProcessorSettings): string {
+    const frontMatterInfo = getFrontMatterInfo(content);
+    const value = finalTags.length > 0 ? toYamlTagValues(finalTags) : undefined;
+
+    if (frontMatterInfo.exists) {
+        // Frontmatter exists => update the tag properties
+        let fmData: Record<string, unknown> | null = null;
+        try {
+            fmData = parseYaml(frontMatterInfo.frontmatter) as Record<string, unknown> | null;
+        } catch {
+            // Unparseable YAML: only the write target is replaced
+        }
+        const currentTags = collectFrontmatterTags(fmData, getTagPropertyNames(settings));
+        if (currentTags.length === finalTags.length && currentTags.every((tag, i) => tag === finalTags[i])) {
+            return content;
+        }
+
+        // Keep the note's spelling of the write target (e.g. `Tags`) if it has one
+        const existingKeys = findTagPropertyKeys(fmData, getTagPropertyNames(settings));
+        const targetKey = existingKeys.find((key) => key.toLowerCase() === settings.tagWriteProperty.toLowerCase())
+            ?? settings.tagWriteProperty;
+
+        let newYaml = setFrontmatterProperty(frontMatterInfo.frontmatter, targetKey, value, settings.tagListStyle);
+        for (const key of existingKeys) {
+            if (key !== targetKey) {
+                newYaml = setFrontmatterProperty(newYaml, key, undefined, settings.tagListStyle);
             }
+        }
+        return content.slice(0, frontMatterInfo.from) +
+            newYaml +
+            content.slice(frontMatterInfo.to);
+    }
 
-            // If there's a change, increment the counter and return the new content
-            modifiedCount++;
-            return newContent;
-        });
+    // No frontmatter => create one only if finalTags is non-empty
+    if (value === undefined) {
+        // Nothing to do, no change
+        return content;
     }
+    const newYaml = setFrontmatterProperty("", settings.tagWriteProperty, value, settings.tagListStyle);
+    return `---\n${newYaml}---\n${content}`;
+}
 
-    return modifiedCount;
+/**
+ * Writes numeric tags (e.g. `2024`) back as YAML numbers, the way they are usually typed,
+ * instead of quoted strings.
+ */
+function toYamlTagValues(tags: string[]): (string | number)[] {
+    return tags.map((tag) => /^\d+$/.test(tag) && String(Number(tag)) === tag ? Number(tag) : tag);
 }
 
 /**
- * Dumps frontmatter data to YAML using the chosen style.
- *
- * "hyphens" => block style arrays (flowLevel: -1)
- * "brackets" => inline style arrays (flowLevel: 1 at the array level)
+ * Returns `content` with one frontmatter property set to `value` (removed if undefined).
  */
-function dumpYaml(fmData: Record<string, unknown>, style: TagListStyle): string {
-    if (style === "brackets") {
-        // Keep the top-level in block style, but arrays inline
-        return yaml.dump(fmData, { flowLevel: 1 }).trim();
-    } else {
-        // hyphens => all block style
-        return yaml.dump(fmData, { flowLevel: -1 }).trim();
+function writeFrontmatterProperty(content: string, property: string, value: unknown, style: TagListStyle): string {
+    const frontMatterInfo = getFrontMatterInfo(content);
+
+    if (frontMatterInfo.exists) {
+        const newYaml = setFrontmatterProperty(frontMatterInfo.frontmatter, property, value, style);
+        return content.slice(0, frontMatterInfo.from) +
+            newYaml +
+            content.slice(frontMatterInfo.to);
+    }
+
+    if (value === undefined) {
+        return content;
     }
+    const newYaml = setFrontmatterProperty("", property, value, style);
+    return `---\n${newYaml}---\n${content}`;
 }
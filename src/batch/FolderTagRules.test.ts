@@ -0,0 +1,72 @@
+import { App, TFile } from "obsidian";
+import { DEFAULT_SETTINGS, FolderTagRule } from "../settings/PluginSettings";
+import { folderRuleTags, folderTagsForPath, parseFolderTagTemplates } from "./FolderTagRules";
+import { buildAddTagsUpdate } from "./TagPresets";
+
+const RULES = DEFAULT_SETTINGS.tagNormalization;
+
+function rule(pattern: string, ...tags: string[]): FolderTagRule {
+    return {id: pattern, pattern, tags};
+}
+
+describe("folderRuleTags", () => {
+    it("matches notes in nested folders", () => {
+        expect(folderRuleTags(rule("Clients/**", "client"), "Clients/Acme/Projects/plan.md", RULES)).toEqual(["client"]);
+        expect(folderRuleTags(rule("/clients/*/Meetings/**", "meeting"), "Clients/Acme/Meetings/2024/kickoff.md", RULES))
+            .toEqual(["meeting"]);
+    });
+
+    it("gives nothing when the path doesn't match", () => {
+        expect(folderRuleTags(rule("Clients/**", "client"), "Archive/Clients/plan.md", RULES)).toEqual([]);
+        expect(folderRuleTags(rule("Clients/*", "client"), "Clients/Acme/plan.md", RULES)).toEqual([]);
+        expect(folderRuleTags(rule(" ", "client"), "plan.md", RULES)).toEqual([]);
+    });
+
+    it("fills in the wildcards' names, with spaces turned into dashes", () => {
+        const clientRule = rule("Clients/*/*/**", "client/$1", "$2/$1");
+        expect(folderRuleTags(clientRule, "Clients/Big Corp/Q1 plans/plan.md", RULES))
+            .toEqual(["client/Big-Corp", "Q1-plans/Big-Corp"]);
+    });
+
+    it("skips expanded tags that aren't valid", () => {
+        // "$2" is "plan.md", "$3" doesn't exist and leaves "project/" behind
+        const clientRule = rule("Clients/*/**", "client", "$2", "project/$3");
+        expect(folderRuleTags(clientRule, "Clients/Acme/plan.md", RULES)).toEqual(["client"]);
+        expect(folderRuleTags(rule("*/**", "area/$1"), "A: B/plan.md", RULES)).toEqual([]);
+    });
+
+    it("normalizes the expanded tags", () => {
+        const rules = {...RULES, lowercase: true};
+        expect(folderRuleTags(rule("Clients/*/**", "#Client/$1"), "Clients/Acme/plan.md", rules)).toEqual(["client/acme"]);
+    });
+});
+
+describe("folderTagsForPath", () => {
+    it("merges every matching rule's tags without repeats in any casing", () => {
+        const settings = {folderTagRules: [rule("Clients/**", "client", "work"), rule("Clients/*/**", "Client", "$1"), rule("Home/**", "home")]};
+        expect(folderTagsForPath(settings, "Clients/Acme/plan.md", RULES)).toEqual(["client", "work", "Acme"]);
+    });
+});
+
+describe("applying folder tags to a note", () => {
+    it("only adds the tags the note doesn't have in any casing", async () => {
+        const file = Object.assign(new TFile(), {path: "Clients/Acme/plan.md"});
+        const app = {
+            metadataCache: {getFileCache: () => ({frontmatter: {tags: ["Client", "draft"]}})},
+        } as unknown as App;
+        const settings = {...DEFAULT_SETTINGS, folderTagRules: [rule("Clients/*/**", "client", "$1")]};
+        const tags = folderTagsForPath(settings, file.path, RULES);
+
+        expect(await buildAddTagsUpdate(app, settings, file, tags)).toEqual({file, finalTags: ["Client", "draft", "Acme"]});
+        expect(await buildAddTagsUpdate(app, settings, file, ["client"])).toBeNull();
+    });
+});
+
+describe("parseFolderTagTemplates", () => {
+    it("accepts captures and reports invalid templates", () => {
+        expect(parseFolderTagTemplates("client/$1, #Client/$1, a b", RULES)).toEqual({
+            tags: ["client/$1"],
+            errors: [expect.stringContaining('"a b"') as string],
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import { FolderTagRule, TagNormalizationRules } from "../settings/PluginSettings";
+import { compileTagPattern } from "./TagPattern";
+import { findTagSyntaxError, normalizeTag, ParsedTagInput } from "./TagSyntax";
+import { includesTag, uniqueTags } from "./TagIdentity";
+
+/** The rules that tag notes by where they are stored. */
+export interface FolderTagRuleSettings {
+    folderTagRules: FolderTagRule[];
+}
+
+/**
+ * A new, empty rule with a stable id (its command refers to the id, so editing keeps hotkeys).
+ */
+export function createFolderTagRule(): FolderTagRule {
+    return {id: Date.now().toString(36), pattern: "", tags: []};
+}
+
+/**
+ * Splits a comma separated list of tag templates, like `parseTagList`. `$1`, `$2`, ... stand
+ * for the text matched by the pattern's wildcards and are checked as if they were a plain word.
+ */
+export function parseFolderTagTemplates(input: string, rules: TagNormalizationRules): ParsedTagInput {
+    const result: ParsedTagInput = {tags: [], errors: []};
+    for (const entry of input.split(",")) {
+        const template = normalizeTag(entry, rules);
+        if (template.length === 0) continue;
+
+        const probe = template.replace(/\$\d+/g, "x");
+        const error = findTagSyntaxError(probe);
+        if (error) {
+            result.errors.push(error.replace(`"${probe}"`, `"${template}"`));
+        } else if (!includesTag(result.tags, template)) {
+            result.tags.push(template);
+        }
+    }
+    return result;
+}
+
+/**
+ * The tags a rule gives a note, or none if the note's path doesn't match the rule's pattern.
+ *
+ * The pattern is a glob on the whole path (see `compileTagPattern`): `Clients/**` matches every
+ * note below `Clients`, `Clients/*\/**` every note in a subfolder of it, with the subfolder's
+ * name as `$1`. Spaces in matched names become dashes; tags that still aren't valid are skipped.
+ */
+export function folderRuleTags(rule: FolderTagRule, path: string, rules: TagNormalizationRules): string[] {
+    if (rule.pattern.trim().length === 0) return [];
+
+    const match = compileTagPattern(rule.pattern.trim().replace(/^\/+/, ""), "glob").exec(path);
+    if (!match) return [];
+
+    const tags: string[] = [];
+    for (const template of rule.tags) {
+        const tag = normalizeTag(
+            template.replace(/\$(\d+)/g, (_, n: string) => (match[Number(n)] ?? "").trim().replace(/\s+/g, "-")),
+            rules
+        );
+        if (tag.length > 0 && findTagSyntaxError(tag) === null) {
+            tags.push(tag);
+        }
+    }
+    return tags;
+}
+
+/**
+ * The tags every matching rule gives the note at `path`.
+ */
+export function folderTagsForPath(
+    settings: FolderTagRuleSettings,
+    path: string,
+    rules: TagNormalizationRules
+): string[] {
+    return uniqueTags(settings.folderTagRules.flatMap((rule) => folderRuleTags(rule, path, rules)));
+}
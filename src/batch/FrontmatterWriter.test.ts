@@ -0,0 +1,64 @@
+import { mergeDuplicateProperty, setFrontmatterProperty } from "./FrontmatterWriter";
+
+describe("setFrontmatterProperty", () => {
+    it("keeps comments, key order and the formatting of other keys", () => {
+        const frontmatter = [
+            "# reviewed by hand",
+            "title: 'Quoted: title'",
+            "tags:",
+            "  - old",
+            "aliases: [a, b] # trailing comment",
+            "",
+        ].join("\n");
+
+        expect(setFrontmatterProperty(frontmatter, "tags", ["new", "other"], "hyphens")).toBe([
+            "# reviewed by hand",
+            "title: 'Quoted: title'",
+            "tags:",
+            "  - new",
+            "  - other",
+            "aliases: [a, b] # trailing comment",
+            "",
+        ].join("\n"));
+    });
+
+    it("writes the chosen list style", () => {
+        expect(setFrontmatterProperty("tags:\n  - a\n", "tags", ["a", "b"], "brackets")).toBe("tags: [a, b]\n");
+    });
+
+    it("returns the text unchanged when the value is already equal", () => {
+        const frontmatter = "tags: [ a,   b ]  # spacing kept\n";
+        expect(setFrontmatterProperty(frontmatter, "tags", ["a", "b"], "hyphens")).toBe(frontmatter);
+    });
+
+    it("keeps an unindented block list unindented", () => {
+        const frontmatter = "tags:\n- a\n- b\ntitle: x\n";
+        expect(setFrontmatterProperty(frontmatter, "tags", ["a", "c"], "hyphens")).toBe("tags:\n- a\n- c\ntitle: x\n");
+    });
+
+    it("appends a missing property and removes one set to undefined", () => {
+        expect(setFrontmatterProperty("title: x\n", "tags", ["a"], "hyphens")).toBe("title: x\ntags:\n  - a\n");
+        expect(setFrontmatterProperty("tags:\n  - a\ntitle: x\n", "tags", undefined, "hyphens")).toBe("title: x\n");
+    });
+
+    it("keeps Windows line endings", () => {
+        expect(setFrontmatterProperty("title: x\r\ntags: a\r\n", "tags", ["b"], "brackets")).toBe("title: x\r\ntags: [b]\r\n");
+    });
+});
+
+describe("mergeDuplicateProperty", () => {
+    it("merges every occurrence into the first, dropping repeated values", () => {
+        const frontmatter = "tags: [a, b]\ntitle: x\ntags:\n  - b\n  - c\n";
+        expect(mergeDuplicateProperty(frontmatter, "tags", "hyphens")).toBe("tags:\n  - a\n  - b\n  - c\ntitle: x\n");
+    });
+
+    it("keeps the first occurrence's unindented list style", () => {
+        const frontmatter = "tags:\n- a\ntags: b\n";
+        expect(mergeDuplicateProperty(frontmatter, "tags", "hyphens")).toBe("tags:\n- a\n- b\n");
+    });
+
+    it("leaves text without duplicates alone", () => {
+        const frontmatter = "tags: [a]\ntitle: x\n";
+        expect(mergeDuplicateProperty(frontmatter, "tags", "hyphens")).toBe(frontmatter);
+    });
+});
@@ -0,0 +1,173 @@
+import * as yaml from "js-yaml";
+
+/** Possible array styles for list properties such as tags. */
+export type TagListStyle = "hyphens" | "brackets";
+
+/** Line range `[start, end)` of a top-level property within the frontmatter lines. */
+interface PropertyRange {
+    start: number;
+    end: number;
+}
+
+/** Frontmatter text split into lines, remembering how to join it back. */
+interface FrontmatterLines {
+    lines: string[];
+    eol: string;
+    hasTrailingNewline: boolean;
+}
+
+/**
+ * Sets a single top-level property in raw frontmatter text (the YAML between the
+ * `---` fences), leaving every other line untouched: comments, key order, quoting
+ * and formatting of the rest of the frontmatter survive byte for byte.
+ *
+ * - `value === undefined` removes the property.
+ * - A missing property is appended at the end of the frontmatter.
+ * - If the property already holds an equal value, the text is returned unchanged,
+ *   so re-applying the same tags never reformats the file.
+ * - Arrays are written in the chosen `style`; an existing unindented block list
+ *   (`- a` directly under `tags:`) keeps that indentation.
+ */
+export function setFrontmatterProperty(
+    frontmatter: string,
+    key: string,
+    value: unknown,
+    style: TagListStyle
+): string {
+    const split = splitLines(frontmatter);
+    const lines = split.lines;
+    const range = findPropertyRange(lines, key);
+
+    if (range && value !== undefined && isSameValue(lines.slice(range.start, range.end), key, value)) {
+        return frontmatter;
+    }
+    if (!range && value === undefined) {
+        return frontmatter;
+    }
+
+    const nodeLines = value === undefined
+        ? []
+        : dumpProperty(key, value, style, range !== null && isUnindentedList(lines, range)).split("\n");
+
+    if (range) {
+        lines.splice(range.start, range.end - range.start, ...nodeLines);
+    } else {
+        lines.push(...nodeLines);
+    }
+
+    return joinLines(split);
+}
+
+/**
+ * Merges every occurrence of a duplicated top-level property (e.g. two `tags:` keys)
+ * into a single list at the position of the first one, dropping repeated values.
+ * Returns the text unchanged if the key isn't duplicated or a node can't be parsed.
+ */
+export function mergeDuplicateProperty(frontmatter: string, key: string, style: TagListStyle): string {
+    const split = splitLines(frontmatter);
+    const lines = split.lines;
+
+    const ranges: PropertyRange[] = [];
+    for (let range = findPropertyRange(lines, key); range; range = findPropertyRange(lines, key, range.end)) {
+        ranges.push(range);
+    }
+    if (ranges.length < 2) return frontmatter;
+
+    const values: unknown[] = [];
+    for (const range of ranges) {
+        let value: unknown;
+        try {
+            const parsed = yaml.load(lines.slice(range.start, range.end).join("\n")) as Record<string, unknown> | null;
+            value = parsed?.[key];
+        } catch {
+            return frontmatter;
+        }
+        const items: unknown[] = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+        for (const item of items) {
+            if (!values.some((v) => JSON.stringify(v) === JSON.stringify(item))) {
+                values.push(item);
+            }
+        }
+    }
+
+    const first = ranges[0];
+    const nodeLines = dumpProperty(key, values, style, isUnindentedList(lines, first)).split("\n");
+    for (const range of ranges.slice(1).reverse()) {
+        lines.splice(range.start, range.end - range.start);
+    }
+    lines.splice(first.start, first.end - first.start, ...nodeLines);
+    return joinLines(split);
+}
+
+function splitLines(frontmatter: string): FrontmatterLines {
+    return {
+        lines: frontmatter.length === 0 ? [] : frontmatter.replace(/\r?\n$/, "").split(/\r?\n/),
+        eol: frontmatter.includes("\r\n") ? "\r\n" : "\n",
+        hasTrailingNewline: frontmatter.length === 0 || /\n$/.test(frontmatter),
+    };
+}
+
+function joinLines({ lines, eol, hasTrailingNewline }: FrontmatterLines): string {
+    if (lines.length === 0) return "";
+    return lines.join(eol) + (hasTrailingNewline ? eol : "");
+}
+
+/**
+ * Finds the lines that make up the first top-level property at or after line `from`:
+ * its `key:` line plus any following indented lines or unindented `- item` lines.
+ * Blank and comment lines only belong to the property if more of its lines follow them.
+ */
+function findPropertyRange(lines: string[], key: string, from: number = 0): PropertyRange | null {
+    const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const keyRegex = new RegExp(`^(["']?)${escapedKey}\\1\\s*:(\\s|$)`);
+    let start = -1;
+    for (let i = from; i < lines.length && start < 0; i++) {
+        if (keyRegex.test(lines[i])) start = i;
+    }
+    if (start < 0) return null;
+
+    let end = start + 1;
+    for (let i = start + 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*$/.test(line) || /^#/.test(line)) continue;
+        if (/^[ \t]/.test(line) || /^-(\s|$)/.test(line)) {
+            end = i + 1;
+            continue;
+        }
+        break;
+    }
+    return { start, end };
+}
+
+/**
+ * Whether the property is a block list whose items start at column 0.
+ */
+function isUnindentedList(lines: string[], range: PropertyRange): boolean {
+    return range.end > range.start + 1 && /^-(\s|$)/.test(lines[range.start + 1]);
+}
+
+/**
+ * Parses the existing property lines and compares them with the new value.
+ */
+function isSameValue(propertyLines: string[], key: string, value: unknown): boolean {
+    try {
+        const parsed = yaml.load(propertyLines.join("\n")) as Record<string, unknown> | null;
+        return JSON.stringify(parsed?.[key]) === JSON.stringify(value);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Dumps just `key: value` using the chosen style.
+ *
+ * "hyphens" => block style arrays (flowLevel: -1)
+ * "brackets" => inline style arrays (flowLevel: 1 at the array level)
+ */
+function dumpProperty(key: string, value: unknown, style: TagListStyle, noArrayIndent: boolean): string {
+    return yaml.dump({ [key]: value }, {
+        flowLevel: style === "brackets" ? 1 : -1,
+        noArrayIndent,
+        lineWidth: -1, // never fold long values onto several lines
+    }).replace(/\n$/, "");
+}
@@ -0,0 +1,54 @@
+import { appendInlineTags, findInlineTags, replaceInlineTags } from "./InlineTagParser";
+
+const tagsOf = (content: string) => findInlineTags(content).map((match) => match.tag);
+
+describe("findInlineTags", () => {
+    it("finds tags at the start of a line and after whitespace", () => {
+        expect(tagsOf("#a text #b/c\n\t#d")).toEqual(["a", "b/c", "d"]);
+    });
+
+    it("skips the frontmatter", () => {
+        expect(tagsOf("---\ntitle: '#nope'\n---\n#yes")).toEqual(["yes"]);
+    });
+
+    it("skips fenced code blocks until a matching fence", () => {
+        const content = ["#before", "```js", "#inside", "~~~", "#still-inside", "```", "#after"].join("\n");
+        expect(tagsOf(content)).toEqual(["before", "after"]);
+    });
+
+    it("skips inline code spans", () => {
+        expect(tagsOf("`#code` and ``#more code`` but #real")).toEqual(["real"]);
+    });
+
+    it("skips headings, URL fragments, ## and numbers", () => {
+        expect(tagsOf("# Heading\nsee https://example.com/page#section or page#anchor\n##double #2024 #2024/12 #y2024")).toEqual(["y2024"]);
+    });
+
+    it("reports offsets and lines", () => {
+        expect(findInlineTags("x\n  #tag.")).toEqual([{tag: "tag", from: 4, to: 8, line: 1}]);
+    });
+});
+
+describe("replaceInlineTags", () => {
+    it("renames tags and deletes them with one adjacent space", () => {
+        const replacer = (tag: string) => (tag === "old" ? "new" : tag === "gone" ? null : tag);
+        expect(replaceInlineTags("a #old b #gone c\n#gone d", replacer)).toBe("a #new b c\nd");
+    });
+
+    it("deletes a rewritten tag that repeats another tag on its line", () => {
+        const merge = (tag: string) => (tag === "ml" ? "machine-learning" : tag);
+        expect(replaceInlineTags("#ml #Machine-Learning\n#ml #ml\nlater #ml", merge))
+            .toBe("#Machine-Learning\n#machine-learning\nlater #machine-learning");
+    });
+
+    it("leaves code alone", () => {
+        expect(replaceInlineTags("`#old` #old", () => "new")).toBe("`#old` #new");
+    });
+});
+
+describe("appendInlineTags", () => {
+    it("adds a line of tags after a blank line", () => {
+        expect(appendInlineTags("body\n\n", ["a", "b"])).toBe("body\n\n#a #b\n");
+        expect(appendInlineTags("", ["a"])).toBe("#a\n");
+    });
+});
@@ -0,0 +1,161 @@
+import { getFrontMatterInfo } from "obsidian";
+import { tagKey } from "./TagIdentity";
+
+/**
+ * An inline `#tag` found in the body of a note.
+ */
+export interface InlineTagMatch {
+    tag: string;  // without the leading '#'
+    from: number; // offset of the '#'
+    to: number;   // offset just past the last tag character
+    line: number; // 0-based line number in the file
+}
+
+/**
+ * Receives an inline tag (without '#') and returns its replacement,
+ * or `null` to delete the occurrence.
+ */
+export type InlineTagReplacer = (tag: string) => string | null;
+
+// A tag is '#' at the start of a line or after whitespace, followed by anything
+// except whitespace and the punctuation Obsidian does not allow in tags.
+// This rules out headings ("# Title"), URL fragments ("page#section") and "##".
+const INLINE_TAG_REGEX = /(^|\s)#([^\s!"#$%&'()*+,.:;<=>?@[\\\]^`{|}~]+)/g;
+const CODE_FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+const INLINE_CODE_REGEX = /(`+)[^`]+?\1/g;
+
+/**
+ * Finds all inline tags in the body of a note, skipping the frontmatter,
+ * fenced code blocks and inline code spans. Purely numeric tags (`#2024`) are
+ * not tags in Obsidian and are ignored.
+ */
+export function findInlineTags(content: string): InlineTagMatch[] {
+    const matches: InlineTagMatch[] = [];
+    const fmInfo = getFrontMatterInfo(content);
+    const bodyStart = fmInfo.exists ? fmInfo.contentStart : 0;
+
+    let offset = 0;
+    let openFence: string | null = null;
+    const lines = content.split("\n");
+
+    for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+        const line = lines[lineNo];
+        const lineStart = offset;
+        offset += line.length + 1;
+
+        if (lineStart < bodyStart) continue;
+
+        // Fenced code blocks: a fence closes only with the same character and at least the same length
+        const fence = CODE_FENCE_REGEX.exec(line);
+        if (fence) {
+            if (openFence === null) {
+                openFence = fence[1];
+            } else if (fence[1][0] === openFence[0] && fence[1].length >= openFence.length) {
+                openFence = null;
+            }
+            continue;
+        }
+        if (openFence !== null) continue;
+
+        // Inline code spans on this line
+        const codeRanges: Array<[number, number]> = [];
+        let code: RegExpExecArray | null;
+        INLINE_CODE_REGEX.lastIndex = 0;
+        while ((code = INLINE_CODE_REGEX.exec(line)) !== null) {
+            codeRanges.push([code.index, code.index + code[0].length]);
+        }
+
+        let m: RegExpExecArray | null;
+        INLINE_TAG_REGEX.lastIndex = 0;
+        while ((m = INLINE_TAG_REGEX.exec(line)) !== null) {
+            const hashIndex = m.index + m[1].length;
+            const tag = m[2];
+            if (!/[^0-9/]/.test(tag)) continue;
+            if (codeRanges.some(([start, end]) => hashIndex >= start && hashIndex < end)) continue;
+
+            matches.push({
+                tag,
+                from: lineStart + hashIndex,
+                to: lineStart + hashIndex + 1 + tag.length,
+                line: lineNo,
+            });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Rewrites the inline tags of `content` through `replacer`.
+ * A deleted tag also takes one adjacent space with it, so "a #b c" becomes "a c".
+ * A rewritten tag that repeats another tag on its line (in any casing) is deleted too,
+ * so merging `ml` into `machine-learning` turns "#ml #machine-learning" into "#machine-learning".
+ */
+export function replaceInlineTags(content: string, replacer: InlineTagReplacer): string {
+    const matches = findInlineTags(content);
+    const replacements = matches.map((match) => replacer(match.tag));
+
+    // Per line, the tags that stay as they are
+    const keptByLine = new Map<number, Set<string>>();
+    matches.forEach((match, i) => {
+        if (replacements[i] !== match.tag) return;
+        const kept = keptByLine.get(match.line) ?? new Set<string>();
+        kept.add(tagKey(match.tag));
+        keptByLine.set(match.line, kept);
+    });
+
+    let result = "";
+    let cursor = 0;
+
+    for (let i = 0; i < matches.length; i++) {
+        const match = matches[i];
+        let replacement = replacements[i];
+        if (replacement === match.tag) continue;
+
+        if (replacement !== null) {
+            const kept = keptByLine.get(match.line) ?? new Set<string>();
+            if (kept.has(tagKey(replacement))) {
+                replacement = null;
+            } else {
+                kept.add(tagKey(replacement));
+                keptByLine.set(match.line, kept);
+            }
+        }
+
+        let from = match.from;
+        let to = match.to;
+        if (replacement === null) {
+            if (from > 0 && (content[from - 1] === " " || content[from - 1] === "\t")) {
+                from--;
+            } else if (content[to] === " ") {
+                to++;
+            }
+        }
+
+        result += content.slice(cursor, from);
+        if (replacement !== null) {
+            result += `#${replacement}`;
+        }
+        cursor = to;
+    }
+
+    return result + content.slice(cursor);
+}
+
+/**
+ * Appends `tags` as a line of inline tags at the end of the note.
+ */
+export function appendInlineTags(content: string, tags: string[]): string {
+    if (tags.length === 0) return content;
+    const tagLine = tags.map((tag) => `#${tag}`).join(" ");
+    const trimmed = content.replace(/\s+$/, "");
+    return trimmed.length === 0 ? `${tagLine}\n` : `${trimmed}\n\n${tagLine}\n`;
+}
+
+/**
+ * Whether `tag` can be written inline: no whitespace or disallowed punctuation,
+ * and not purely numeric.
+ */
+export function isValidInlineTag(tag: string): boolean {
+    return /^[^\s!"#$%&'()*+,.:;<=>?@[\\\]^`{|}~]+$/.test(tag) && /[^0-9/]/.test(tag);
+}
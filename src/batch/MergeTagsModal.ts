@@ -0,0 +1,153 @@
+import { App, ButtonComponent, Modal, Notice, Setting } from "obsidian";
+import { ExistingTagSuggest } from "./TagSuggest";
+import { TagUpdate } from "./FileTagProcessor";
+import { TagPropertySettings } from "./TagReader";
+import { renderTagChangeTable } from "./RenameTagModal";
+import { findTagSyntaxError, normalizeTag, TagSyntaxSettings } from "./TagSyntax";
+import {
+    buildTagChangeUpdates,
+    countMergeChanges,
+    mergeTagValue,
+    normalizeTagName,
+    previewTagChanges,
+    TagMapping,
+    TagMergeCount,
+    TagRenamePreview,
+} from "./TagRenamer";
+
+/**
+ * The modal that merges several tags (and their subtags) into one canonical tag
+ * across the vault, after showing per-tag counts and the affected files.
+ */
+export class MergeTagsModal extends Modal {
+    private settings: TagPropertySettings & TagSyntaxSettings;
+    private sourceTags: string[] = [];
+    private targetTag: string = "";
+    private previews: TagRenamePreview[] | null = null;
+    private mapTag: TagMapping = (tag) => mergeTagValue(tag, this.sourceTags, this.targetTag);
+
+    private previewContainerEl: HTMLElement;
+    private mergeButton: ButtonComponent;
+
+    /**
+     * The user's callback, receiving the updates, a description of the merge,
+     * and how many files/occurrences each source tag accounted for.
+     */
+    onSubmit: (updates: TagUpdate[], description: string, counts: TagMergeCount[]) => void | Promise<void>;
+
+    constructor(
+        app: App,
+        settings: TagPropertySettings & TagSyntaxSettings,
+        onSubmit: (updates: TagUpdate[], description: string, counts: TagMergeCount[]) => void | Promise<void>
+    ) {
+        super(app);
+        this.settings = settings;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.modalEl.addClass("tt-bulk-tag-modal");
+        contentEl.empty();
+        contentEl.createEl("h2", {text: "Merge tags"});
+
+        new Setting(contentEl)
+            .setName("Tags to merge")
+            .setDesc("Tags to replace, separated by commas. Nested tags below them move along.")
+            .addText(input => {
+                input.setPlaceholder("Tags to merge (comma separated)")
+                    .onChange((value) => {
+                        this.sourceTags = [...new Set(
+                            value.split(/[,\s]+/).map(normalizeTagName).filter((t) => t.length > 0)
+                        )];
+                        this.invalidatePreview();
+                    });
+                new ExistingTagSuggest(this.app, input.inputEl, this.settings);
+            });
+
+        const targetSetting = new Setting(contentEl)
+            .setName("Merge into")
+            .setDesc("The canonical tag that replaces all of the above.")
+            .addText(input => {
+                input.setPlaceholder("Target tag")
+                    .onChange((value) => {
+                        this.targetTag = normalizeTagName(normalizeTag(value, this.settings.tagNormalization));
+                        targetErrorEl.setText(this.targetTag ? findTagSyntaxError(this.targetTag) ?? "" : "");
+                        this.invalidatePreview();
+                    });
+                new ExistingTagSuggest(this.app, input.inputEl, this.settings).setMultiple(false);
+            });
+        const targetErrorEl = targetSetting.descEl.createDiv({cls: "warning"});
+
+        this.previewContainerEl = contentEl.createDiv();
+
+        const buttonContainer = contentEl.createDiv({cls: "modal-button-container"});
+        new ButtonComponent(buttonContainer)
+            .setButtonText("Preview")
+            .onClick(() => this.renderPreview());
+        this.mergeButton = new ButtonComponent(buttonContainer)
+            .setButtonText("Merge")
+            .setCta()
+            .setDisabled(true)
+            .onClick(() => this.applyMerge());
+        new ButtonComponent(buttonContainer)
+            .setButtonText("Cancel")
+            .onClick(() => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private invalidatePreview() {
+        this.previews = null;
+        this.previewContainerEl.empty();
+        this.mergeButton.setDisabled(true);
+    }
+
+    private validate(): string | null {
+        if (this.sourceTags.length === 0 || !this.targetTag) return "Enter the tags to merge and the target tag.";
+        const syntaxError = findTagSyntaxError(this.targetTag);
+        if (syntaxError) return syntaxError;
+        return null;
+    }
+
+    /**
+     * Scans the vault, then renders per-tag counts and one row per affected file.
+     */
+    private async renderPreview() {
+        const error = this.validate();
+        if (error) {
+            new Notice(error);
+            return;
+        }
+
+        this.previews = await previewTagChanges(this.app, this.settings, this.mapTag);
+        const containerEl = this.previewContainerEl;
+        containerEl.empty();
+
+        if (this.previews.length === 0) {
+            containerEl.createEl("p", {text: "None of these tags need to change."});
+            this.mergeButton.setDisabled(true);
+            return;
+        }
+
+        const ul = containerEl.createEl("ul");
+        for (const count of countMergeChanges(this.previews, this.sourceTags)) {
+            ul.createEl("li", {text: `${count.tag}: ${count.occurrences} occurrence(s) in ${count.files} file(s)`});
+        }
+
+        renderTagChangeTable(containerEl, this.previews);
+        this.mergeButton.setDisabled(false);
+    }
+
+    private async applyMerge() {
+        if (!this.previews || this.previews.length === 0) return;
+
+        const counts = countMergeChanges(this.previews, this.sourceTags);
+        const updates = await buildTagChangeUpdates(this.app, this.settings, this.previews, this.mapTag);
+        const description = `Merge ${this.sourceTags.join(", ")} into "${this.targetTag}"`;
+        this.close();
+        void this.onSubmit(updates, description, counts);
+    }
+}
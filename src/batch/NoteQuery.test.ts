@@ -0,0 +1,45 @@
+import { TFile } from "obsidian";
+import { parseNoteQuery, QueryableNote } from "./NoteQuery";
+
+function note(path: string, tags: string[], ctime = 0): QueryableNote {
+    const basename = path.replace(/^.*\//, "").replace(/\.md$/, "");
+    return {file: Object.assign(new TFile(), {path, basename, stat: {ctime, mtime: ctime, size: 0}}), tags};
+}
+
+const notes = [
+    note("Work/Apollo meeting.md", ["project/apollo", "meeting"], new Date(2024, 1, 10).getTime()),
+    note("Work/Budget.md", ["Finance"], new Date(2023, 5, 1).getTime()),
+    note("Daily notes/2024-03-01.md", ["journal"], new Date(2024, 2, 1).getTime()),
+];
+
+function matches(query: string): string[] {
+    const predicate = parseNoteQuery(query);
+    return predicate ? notes.filter(predicate).map((n) => n.file.basename) : [];
+}
+
+describe("parseNoteQuery", () => {
+    it("returns null for an empty query", () => {
+        expect(parseNoteQuery("   ")).toBeNull();
+    });
+
+    it("combines conditions with AND, OR, NOT and parentheses", () => {
+        expect(matches("folder:Work -meeting")).toEqual(["Budget"]);
+        expect(matches("#finance OR journal")).toEqual(["Budget", "2024-03-01"]);
+        expect(matches("project/* (NOT name:budget)")).toEqual(["Apollo meeting"]);
+        expect(matches('folder:"Daily notes" OR created:2023')).toEqual(["Budget", "2024-03-01"]);
+        expect(matches("created:2024-01..2024-02")).toEqual(["Apollo meeting"]);
+        expect(matches("created:>=2024-03")).toEqual(["2024-03-01"]);
+    });
+
+    it.each([
+        ["(meeting", "Missing closing parenthesis."],
+        ["meeting )", 'Unexpected ")".'],
+        ["meeting OR", "The query ends too early."],
+        ["AND meeting", 'Unexpected "AND".'],
+        ["folder:", '"folder:" needs a value.'],
+        ["size:3", 'Unknown field "size". Use tag, folder, name, created or modified.'],
+        ["created:yesterday", '"yesterday" is not a date. Use YYYY, YYYY-MM or YYYY-MM-DD.'],
+    ])("rejects %p", (query, message) => {
+        expect(() => parseNoteQuery(query)).toThrow(new SyntaxError(message));
+    });
+});
@@ -0,0 +1,242 @@
+import { App, TFile } from "obsidian";
+import { collectFrontmatterTags, getTagPropertyNames, TagPropertySettings } from "./TagReader";
+import { compileTagPattern } from "./TagPattern";
+import { tagKey, uniqueTags } from "./TagIdentity";
+
+/** A note with the tags a query is matched against (frontmatter and inline, without '#'). */
+export interface QueryableNote {
+    file: TFile;
+    tags: string[];
+}
+
+/** A compiled query. */
+export type NotePredicate = (note: QueryableNote) => boolean;
+
+/**
+ * Compiles a note query. Conditions are combined with `AND` (also implied between
+ * conditions), `OR` and `NOT` (or a leading `-`), grouped with parentheses:
+ *
+ * - `project`, `#project`, `tag:project` — has the tag (any casing)
+ * - `project/*` — has a tag nested below `project`; other `*` / `?` work like glob patterns
+ * - `folder:Work` — is in the folder or one of its subfolders
+ * - `name:meeting` — the file name contains the text
+ * - `created:2024-01-01..2024-03-31`, `modified:>=2024-05`, `created:2023` — date ranges
+ *   (`..` with either side optional, `>`, `>=`, `<`, `<=`, or a single year, month or day)
+ *
+ * Values with spaces can be quoted: `folder:"Daily notes"`. Returns null for an empty query.
+ *
+ * @throws SyntaxError if the query can't be parsed
+ */
+export function parseNoteQuery(query: string): NotePredicate | null {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return null;
+
+    const parser = new QueryParser(tokens);
+    return parser.parse();
+}
+
+/**
+ * Every Markdown note in the vault with its tags, read from the metadata cache.
+ */
+export function getQueryableNotes(app: App, settings: TagPropertySettings): QueryableNote[] {
+    return app.vault.getMarkdownFiles().map((file) => {
+        const cache = app.metadataCache.getFileCache(file);
+        const inlineTags = (cache?.tags ?? []).map((t) => t.tag.replace(/^#/, ""));
+        return {
+            file,
+            tags: uniqueTags([...collectFrontmatterTags(cache?.frontmatter, getTagPropertyNames(settings)), ...inlineTags]),
+        };
+    });
+}
+
+/**
+ * Splits the query into parentheses and words, keeping quoted values together.
+ */
+function tokenize(query: string): string[] {
+    const tokens: string[] = [];
+    const tokenRegex = /\s*(\(|\)|[^\s()"]*"[^"]*"?|[^\s()]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(query)) !== null && match[0].length > 0) {
+        tokens.push(match[1]);
+    }
+    return tokens;
+}
+
+/**
+ * Recursive descent parser: `OR` binds loosest, then `AND`, then `NOT`.
+ */
+class QueryParser {
+    private tokens: string[];
+    private pos = 0;
+
+    constructor(tokens: string[]) {
+        this.tokens = tokens;
+    }
+
+    parse(): NotePredicate {
+        const predicate = this.parseOr();
+        if (this.pos < this.tokens.length) {
+            throw new SyntaxError(`Unexpected "${this.tokens[this.pos]}".`);
+        }
+        return predicate;
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private parseOr(): NotePredicate {
+        const operands = [this.parseAnd()];
+        while (this.peek() === "OR") {
+            this.pos++;
+            operands.push(this.parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : (note) => operands.some((p) => p(note));
+    }
+
+    private parseAnd(): NotePredicate {
+        const operands = [this.parseNot()];
+        for (let token = this.peek(); token !== undefined && token !== ")" && token !== "OR"; token = this.peek()) {
+            if (token === "AND") {
+                this.pos++;
+            }
+            operands.push(this.parseNot());
+        }
+        return operands.length === 1 ? operands[0] : (note) => operands.every((p) => p(note));
+    }
+
+    private parseNot(): NotePredicate {
+        const token = this.peek();
+        if (token === "NOT") {
+            this.pos++;
+            const operand = this.parseNot();
+            return (note) => !operand(note);
+        }
+        if (token !== undefined && token.length > 1 && token.startsWith("-")) {
+            this.tokens[this.pos] = token.slice(1);
+            const operand = this.parseNot();
+            return (note) => !operand(note);
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): NotePredicate {
+        const token = this.peek();
+        if (token === undefined) {
+            throw new SyntaxError("The query ends too early.");
+        }
+        this.pos++;
+
+        if (token === "(") {
+            const inner = this.parseOr();
+            if (this.peek() !== ")") {
+                throw new SyntaxError("Missing closing parenthesis.");
+            }
+            this.pos++;
+            return inner;
+        }
+        if (token === ")" || token === "AND" || token === "OR") {
+            throw new SyntaxError(`Unexpected "${token}".`);
+        }
+        return parseCondition(token);
+    }
+}
+
+/**
+ * Compiles a single `field:value` condition (a bare word is a tag).
+ */
+function parseCondition(token: string): NotePredicate {
+    const fieldMatch = /^([a-z]+):(.*)$/i.exec(token);
+    const field = fieldMatch ? fieldMatch[1].toLowerCase() : "tag";
+    const value = unquote(fieldMatch ? fieldMatch[2] : token);
+    if (value.length === 0) {
+        throw new SyntaxError(`"${token}" needs a value.`);
+    }
+
+    switch (field) {
+        case "tag": {
+            const matchesTag = compileTagCondition(value);
+            return (note) => note.tags.some(matchesTag);
+        }
+        case "folder": {
+            const folder = value.replace(/^\/+|\/+$/g, "").toLowerCase();
+            return (note) => folder.length === 0 || note.file.path.toLowerCase().startsWith(folder + "/");
+        }
+        case "name": {
+            const text = value.toLowerCase();
+            return (note) => note.file.basename.toLowerCase().includes(text);
+        }
+        case "created": {
+            const inRange = parseDateRange(value);
+            return (note) => inRange(note.file.stat.ctime);
+        }
+        case "modified": {
+            const inRange = parseDateRange(value);
+            return (note) => inRange(note.file.stat.mtime);
+        }
+        default:
+            throw new SyntaxError(`Unknown field "${field}". Use tag, folder, name, created or modified.`);
+    }
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"([^"]*)"?$/, "$1").trim();
+}
+
+function compileTagCondition(value: string): (tag: string) => boolean {
+    const tag = value.replace(/^#/, "");
+    if (tag.endsWith("/*") && !/[*?]/.test(tag.slice(0, -2))) {
+        const prefix = tagKey(tag.slice(0, -2)) + "/";
+        return (t) => tagKey(t).startsWith(prefix);
+    }
+    if (/[*?]/.test(tag)) {
+        const pattern = compileTagPattern(tag, "glob");
+        return (t) => pattern.test(t);
+    }
+    return (t) => tagKey(t) === tagKey(tag);
+}
+
+/**
+ * Compiles `A..B`, `>A`, `>=A`, `<A`, `<=A` or `A` into a test on a timestamp.
+ * A date can be a year, a month or a day and stands for that whole period.
+ */
+function parseDateRange(value: string): (time: number) => boolean {
+    const rangeMatch = /^(.*)\.\.(.*)$/.exec(value);
+    if (rangeMatch) {
+        const from = rangeMatch[1] ? parsePeriod(rangeMatch[1]).start : -Infinity;
+        const to = rangeMatch[2] ? parsePeriod(rangeMatch[2]).end : Infinity;
+        return (time) => time >= from && time < to;
+    }
+
+    const comparison = /^(>=|<=|>|<)(.*)$/.exec(value);
+    if (comparison) {
+        const period = parsePeriod(comparison[2]);
+        switch (comparison[1]) {
+            case ">": return (time) => time >= period.end;
+            case ">=": return (time) => time >= period.start;
+            case "<": return (time) => time < period.start;
+            default: return (time) => time < period.end;
+        }
+    }
+
+    const period = parsePeriod(value);
+    return (time) => time >= period.start && time < period.end;
+}
+
+/**
+ * `2024`, `2024-05` or `2024-05-17` as a `[start, end)` range of local time.
+ */
+function parsePeriod(text: string): {start: number; end: number} {
+    const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(text.trim());
+    if (!match) {
+        throw new SyntaxError(`"${text}" is not a date. Use YYYY, YYYY-MM or YYYY-MM-DD.`);
+    }
+    const year = Number(match[1]);
+    const month = match[2] ? Number(match[2]) - 1 : 0;
+    const day = match[3] ? Number(match[3]) : 1;
+    const start = new Date(year, month, day);
+    const end = match[3]
+        ? new Date(year, month, day + 1)
+        : match[2] ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+    return {start: start.getTime(), end: end.getTime()};
+}
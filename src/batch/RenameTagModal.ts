@@ -0,0 +1,175 @@
+import { App, ButtonComponent, Modal, Notice, Setting } from "obsidian";
+import { ExistingTagSuggest } from "./TagSuggest";
+import { TagUpdate } from "./FileTagProcessor";
+import { TagPropertySettings } from "./TagReader";
+import { findTagSyntaxError, normalizeTag, TagSyntaxSettings } from "./TagSyntax";
+import {
+    buildTagChangeUpdates,
+    normalizeTagName,
+    previewTagChanges,
+    renameTagValue,
+    TagChange,
+    TagMapping,
+    TagRenamePreview,
+} from "./TagRenamer";
+
+/**
+ * The modal that renames a tag (and all of its subtags) across the vault,
+ * in frontmatter and inline, after showing a preview of the affected files.
+ */
+export class RenameTagModal extends Modal {
+    private settings: TagPropertySettings & TagSyntaxSettings;
+    private fromTag: string;
+    private toTag: string = "";
+    private previews: TagRenamePreview[] | null = null;
+    private mapTag: TagMapping = (tag) => renameTagValue(tag, this.fromTag, this.toTag);
+
+    private previewContainerEl: HTMLElement;
+    private renameButton: ButtonComponent;
+
+    /**
+     * The user's callback, receiving the updates and a description of the rename.
+     */
+    onSubmit: (updates: TagUpdate[], description: string) => void | Promise<void>;
+
+    constructor(
+        app: App,
+        settings: TagPropertySettings & TagSyntaxSettings,
+        initialTag: string,
+        onSubmit: (updates: TagUpdate[], description: string) => void | Promise<void>
+    ) {
+        super(app);
+        this.settings = settings;
+        this.fromTag = normalizeTagName(initialTag);
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.modalEl.addClass("tt-bulk-tag-modal");
+        contentEl.empty();
+        contentEl.createEl("h2", {text: "Rename tag"});
+
+        new Setting(contentEl)
+            .setName("Tag to rename")
+            .setDesc("Nested tags below it are renamed too.")
+            .addText(input => {
+                input.setPlaceholder("Existing tag")
+                    .setValue(this.fromTag)
+                    .onChange((value) => {
+                        this.fromTag = normalizeTagName(value);
+                        this.invalidatePreview();
+                    });
+                new ExistingTagSuggest(this.app, input.inputEl, this.settings).setMultiple(false);
+            });
+
+        const toTagSetting = new Setting(contentEl)
+            .setName("New name")
+            .addText(input => {
+                input.setPlaceholder("New tag name")
+                    .onChange((value) => {
+                        this.toTag = normalizeTagName(normalizeTag(value, this.settings.tagNormalization));
+                        toTagErrorEl.setText(this.toTag ? findTagSyntaxError(this.toTag) ?? "" : "");
+                        this.invalidatePreview();
+                    });
+            });
+        const toTagErrorEl = toTagSetting.descEl.createDiv({cls: "warning"});
+
+        this.previewContainerEl = contentEl.createDiv();
+
+        const buttonContainer = contentEl.createDiv({cls: "modal-button-container"});
+        new ButtonComponent(buttonContainer)
+            .setButtonText("Preview")
+            .onClick(() => this.renderPreview());
+        this.renameButton = new ButtonComponent(buttonContainer)
+            .setButtonText("Rename")
+            .setCta()
+            .setDisabled(true)
+            .onClick(() => this.applyRename());
+        new ButtonComponent(buttonContainer)
+            .setButtonText("Cancel")
+            .onClick(() => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private invalidatePreview() {
+        this.previews = null;
+        this.previewContainerEl.empty();
+        this.renameButton.setDisabled(true);
+    }
+
+    private validate(): string | null {
+        if (!this.fromTag || !this.toTag) return "Enter both the tag to rename and its new name.";
+        const syntaxError = findTagSyntaxError(this.toTag);
+        if (syntaxError) return syntaxError;
+        // A rename that only changes the casing is allowed: it fixes the tag's spelling across the vault
+        if (this.fromTag === this.toTag) return "The new name is the same as the old one.";
+        return null;
+    }
+
+    /**
+     * Scans the vault and renders one row per affected file.
+     */
+    private async renderPreview() {
+        const error = this.validate();
+        if (error) {
+            new Notice(error);
+            return;
+        }
+
+        this.previews = await previewTagChanges(this.app, this.settings, this.mapTag);
+        const containerEl = this.previewContainerEl;
+        containerEl.empty();
+
+        if (this.previews.length === 0) {
+            containerEl.createEl("p", {text: `No notes use the tag "${this.fromTag}".`});
+            this.renameButton.setDisabled(true);
+            return;
+        }
+
+        renderTagChangeTable(containerEl, this.previews);
+        this.renameButton.setDisabled(false);
+    }
+
+    private async applyRename() {
+        if (!this.previews || this.previews.length === 0) return;
+
+        const updates = await buildTagChangeUpdates(this.app, this.settings, this.previews, this.mapTag);
+        const description = `Rename tag "${this.fromTag}" to "${this.toTag}"`;
+        this.close();
+        void this.onSubmit(updates, description);
+    }
+}
+
+/**
+ * Renders the "file / frontmatter changes / inline changes" preview table
+ * shared by the rename and merge modals.
+ */
+export function renderTagChangeTable(containerEl: HTMLElement, previews: TagRenamePreview[]) {
+    containerEl.createEl("p", {text: `${previews.length} file(s) will be changed:`});
+    const tableContainer = containerEl.createEl("div", {cls: "bulk-tag-table-container"});
+
+    const headerRow = tableContainer.createEl("div", {cls: "bulk-tag-table-row table-header-row"});
+    headerRow.createEl("span", {text: "File name", cls: "file-name-col header-col"});
+    headerRow.createEl("span", {text: "Frontmatter tags", cls: "current-tags-col header-col"});
+    headerRow.createEl("span", {text: "Inline tags", cls: "proposed-tags-col header-col"});
+
+    for (const preview of previews) {
+        const rowEl = tableContainer.createEl("div", {cls: "bulk-tag-table-row"});
+        rowEl.createEl("span", {text: preview.file.path, cls: "file-name-col"});
+        renderChanges(rowEl.createEl("span", {cls: "current-tags-col"}), preview.frontmatterChanges);
+        renderChanges(rowEl.createEl("span", {cls: "proposed-tags-col"}), preview.inlineChanges);
+    }
+}
+
+function renderChanges(cellEl: HTMLElement, changes: TagChange[]) {
+    for (const change of changes) {
+        const changeEl = cellEl.createDiv({cls: "tt-tag-change"});
+        changeEl.createEl("a", {cls: "tag", text: change.from, attr: {disabled: true}});
+        changeEl.appendText(" → ");
+        changeEl.createEl("a", {cls: "tag", text: change.to, attr: {disabled: true}});
+    }
+}
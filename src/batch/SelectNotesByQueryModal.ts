@@ -0,0 +1,125 @@
+import { App, ButtonComponent, Modal, Setting, TFile } from "obsidian";
+import { TagPropertySettings } from "./TagReader";
+import { getQueryableNotes, parseNoteQuery, QueryableNote } from "./NoteQuery";
+
+/** How many matching paths are listed below the count. */
+const PREVIEW_LIMIT = 50;
+
+/**
+ * The modal that selects notes with a tag / folder / name / date query (see `parseNoteQuery`)
+ * and hands the matches to the bulk tag editor.
+ */
+export class SelectNotesByQueryModal extends Modal {
+    private settings: TagPropertySettings;
+    private notes: QueryableNote[] = [];
+    private matches: TFile[] = [];
+    private updateTimer: number | null = null;
+
+    private errorEl: HTMLElement;
+    private countEl: HTMLElement;
+    private previewEl: HTMLElement;
+    private submitButton: ButtonComponent;
+
+    /**
+     * The user's callback, receiving the matching notes.
+     */
+    onSubmit: (files: TFile[]) => void;
+
+    constructor(app: App, settings: TagPropertySettings, onSubmit: (files: TFile[]) => void) {
+        super(app);
+        this.settings = settings;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.modalEl.addClass("tt-bulk-tag-modal");
+        contentEl.empty();
+        contentEl.createEl("h2", {text: "Select notes by query"});
+
+        this.notes = getQueryableNotes(this.app, this.settings);
+
+        new Setting(contentEl)
+            .setName("Query")
+            .setDesc("Conditions on tags, folders, file names and dates, combined with operators and parentheses. See the syntax below.")
+            .addText(input => {
+                input.setPlaceholder("Example: project/* -archived")
+                    .onChange((value) => {
+                        window.clearTimeout(this.updateTimer ?? undefined);
+                        this.updateTimer = window.setTimeout(() => this.updateMatches(value), 150);
+                    });
+                input.inputEl.addClass("tt-query-input");
+            });
+
+        const help = contentEl.createEl("details", {cls: "tt-query-help"});
+        help.createEl("summary", {text: "Query syntax"});
+        const helpList = help.createEl("ul");
+        [
+            ["project, #project", "has the tag (any casing)"],
+            ["project/*", "has a tag nested below project"],
+            ["folder:Work", "is in the folder or a subfolder"],
+            ["name:meeting", "the file name contains the text"],
+            ["created:2024-01..2024-03", "created from January to March 2024"],
+            ["modified:>=2024-05-01", "modified on or after a date (also >, <, <=)"],
+            ["a b, a AND b", "both"],
+            ["a OR b", "either"],
+            ["NOT a, -a", "not"],
+            ['folder:"Daily notes"', "quote values with spaces"],
+        ].forEach(([example, meaning]) => {
+            const li = helpList.createEl("li");
+            li.createEl("code", {text: example});
+            li.appendText(` — ${meaning}`);
+        });
+
+        this.errorEl = contentEl.createDiv({cls: "warning"});
+        this.countEl = contentEl.createDiv({cls: "tt-query-count"});
+        this.previewEl = contentEl.createEl("ul", {cls: "tt-query-preview"});
+
+        const buttonContainer = contentEl.createDiv({cls: "modal-button-container"});
+        this.submitButton = new ButtonComponent(buttonContainer)
+            .setButtonText("Edit tags")
+            .setCta()
+            .setDisabled(true)
+            .onClick(() => {
+                if (this.matches.length === 0) return;
+                this.close();
+                this.onSubmit(this.matches);
+            });
+        new ButtonComponent(buttonContainer)
+            .setButtonText("Cancel")
+            .onClick(() => this.close());
+    }
+
+    onClose() {
+        window.clearTimeout(this.updateTimer ?? undefined);
+        this.contentEl.empty();
+    }
+
+    /**
+     * Re-runs the query and shows the number of matches and the first few paths.
+     */
+    private updateMatches(query: string) {
+        this.errorEl.setText("");
+        this.previewEl.empty();
+        this.matches = [];
+
+        try {
+            const predicate = parseNoteQuery(query);
+            if (predicate) {
+                this.matches = this.notes.filter(predicate).map((note) => note.file);
+            }
+        } catch (e) {
+            this.errorEl.setText(e instanceof Error ? e.message : String(e));
+        }
+
+        this.countEl.setText(query.trim() ? `${this.matches.length} matching note(s)` : "");
+        this.matches.slice(0, PREVIEW_LIMIT).forEach((file) => this.previewEl.createEl("li", {text: file.path}));
+        if (this.matches.length > PREVIEW_LIMIT) {
+            this.previewEl.createEl("li", {text: `...and ${this.matches.length - PREVIEW_LIMIT} more`});
+        }
+
+        this.submitButton
+            .setButtonText(this.matches.length > 0 ? `Edit tags on ${this.matches.length} notes` : "Edit tags")
+            .setDisabled(this.matches.length === 0);
+    }
+}
@@ -0,0 +1,128 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { JournalEntry, RevertResult, TagEditJournal } from "./TagEditJournal";
+
+/**
+ * Lists past bulk tag edits from the journal and lets the user revert any of them.
+ */
+export class TagEditHistoryModal extends Modal {
+    private journal: TagEditJournal;
+
+    constructor(app: App, journal: TagEditJournal) {
+        super(app);
+        this.journal = journal;
+    }
+
+    onOpen() {
+        this.modalEl.addClass("tt-history-modal");
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Re-renders the entry list, optionally preceded by the conflicts of the last revert.
+     */
+    private render(lastConflicts?: { entry: JournalEntry; result: RevertResult }) {
+        const {contentEl} = this;
+        contentEl.empty();
+        contentEl.createEl("h2", {text: "Bulk tag edit history"});
+
+        if (lastConflicts && lastConflicts.result.conflicts.length > 0) {
+            this.renderConflicts(contentEl, lastConflicts.entry, lastConflicts.result);
+        }
+
+        const entries = this.journal.getEntries();
+        if (entries.length === 0) {
+            contentEl.createEl("p", {text: "No bulk tag edits have been recorded yet."});
+            return;
+        }
+
+        for (const entry of entries) {
+            this.renderEntry(contentEl, entry);
+        }
+    }
+
+    private renderEntry(containerEl: HTMLElement, entry: JournalEntry) {
+        const date = new Date(entry.timestamp).toLocaleString();
+        const setting = new Setting(containerEl)
+            .setName(entry.description)
+            .setDesc(entry.reverted
+                ? `${date} · reverted`
+                : `${date} · ${entry.files.length} file(s)`);
+
+        if (entry.reverted) return;
+
+        setting.addButton((btn) =>
+            btn
+                .setButtonText("Revert")
+                .onClick(async () => {
+                    const result = await revertWithNotice(this.journal, entry);
+                    this.render(result ? {entry, result} : undefined);
+                })
+        );
+    }
+
+    /**
+     * Shown after a revert skipped files that were edited since the operation.
+     * The user can inspect the list and explicitly choose to overwrite them.
+     */
+    private renderConflicts(containerEl: HTMLElement, entry: JournalEntry, result: RevertResult) {
+        const warningEl = containerEl.createDiv({cls: "tt-history-conflicts"});
+        warningEl.createEl("p", {
+            cls: "warning",
+            text: `The following file(s) were modified after "${entry.description}" and were not reverted:`,
+        });
+        const ul = warningEl.createEl("ul");
+        result.conflicts.forEach((path) => ul.createEl("li", {text: path}));
+
+        new Setting(warningEl)
+            .setDesc("Overwriting discards any frontmatter changes made to these files since the operation. Tag lines in the body that were edited or moved since are kept.")
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Overwrite and revert")
+                    .setWarning()
+                    .onClick(async () => {
+                        await revertWithNotice(this.journal, entry, true);
+                        this.render();
+                    })
+            );
+    }
+}
+
+/**
+ * Reverts the entry and summarizes the result in a notice. Returns null (after telling the
+ * user) if the journal couldn't be saved.
+ */
+export async function revertWithNotice(journal: TagEditJournal, entry: JournalEntry, force: boolean = false): Promise<RevertResult | null> {
+    try {
+        const result = await journal.revert(entry, force);
+        showRevertNotice(result);
+        return result;
+    } catch (e) {
+        console.error("Tag Tactician: could not save the bulk edit journal", e);
+        new Notice(`Could not revert "${entry.description}": ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+    }
+}
+
+/**
+ * Summarizes a revert for the user.
+ */
+function showRevertNotice(result: RevertResult) {
+    let message = `Reverted tags in ${result.reverted.length} file(s).`;
+    if (result.conflicts.length > 0) {
+        message += ` ${result.conflicts.length} file(s) changed since the edit and were skipped; use the bulk tag edit history to overwrite them.`;
+    }
+    if (result.partial.length > 0) {
+        message += ` ${result.partial.length} file(s) were only partly reverted: lines edited or moved since the edit were kept.`;
+    }
+    if (result.failed.length > 0) {
+        message += ` ${result.failed.length} file(s) could not be written; try again later.`;
+    }
+    if (result.missing.length > 0) {
+        message += ` ${result.missing.length} file(s) no longer exist.`;
+    }
+    new Notice(message);
+}
@@ -0,0 +1,187 @@
+import { App, TFile } from "obsidian";
+import { createJournalRecord, diffLines, JournalEntry, TagEditJournal } from "./TagEditJournal";
+
+function createVault(contents: Record<string, string>, locked: string[] = []) {
+    const files = new Map<string, TFile>();
+    const data = new Map<TFile, string>();
+    const written = new Map<string, string>();
+    for (const [path, content] of Object.entries(contents)) {
+        const file = Object.assign(new TFile(), {path});
+        files.set(path, file);
+        data.set(file, content);
+    }
+    const app = {
+        vault: {
+            getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+            process: (file: TFile, fn: (content: string) => string) => {
+                if (locked.includes(file.path)) return Promise.reject(new Error("locked"));
+                data.set(file, fn(data.get(file)!));
+                return Promise.resolve(data.get(file)!);
+            },
+            adapter: {
+                write: (path: string, content: string) => {
+                    written.set(path, content);
+                    return Promise.resolve();
+                },
+            },
+        },
+    } as unknown as App;
+    const read = (path: string) => data.get(files.get(path)!)!;
+    const write = (path: string, content: string) => data.set(files.get(path)!, content);
+    return {app, read, write, written};
+}
+
+/** Applies `edit` to the note and journals it the way `processFiles` does. */
+async function edit(journal: TagEditJournal, vault: ReturnType<typeof createVault>, path: string, edit: (content: string) => string) {
+    const before = vault.read(path);
+    const after = edit(before);
+    vault.write(path, after);
+    await journal.record("Edit", [createJournalRecord(path, before, after)]);
+    return journal.getLastRevertable()!;
+}
+
+const NOTE = ["---", "tags: [a]", "---", "# Title", "intro #old", "", "middle", "", "more #old text", "end"].join("\n");
+
+describe("diffLines", () => {
+    const apply = (before: string[], after: string[]) => {
+        const lines = [...after];
+        const changes = diffLines(before, after);
+        for (let i = changes.length - 1; i >= 0; i--) {
+            expect(lines.slice(changes[i].line, changes[i].line + changes[i].after.length)).toEqual(changes[i].after);
+            lines.splice(changes[i].line, changes[i].after.length, ...changes[i].before);
+        }
+        return lines;
+    };
+
+    it("keeps only the changed lines", () => {
+        const before = ["a", "#old b", "c", "d", "e #old"];
+        const after = ["a", "#new b", "c", "d", "e #new"];
+        expect(diffLines(before, after)).toEqual([
+            {line: 1, before: ["#old b"], after: ["#new b"], previousLine: "a", nextLine: "c"},
+            {line: 4, before: ["e #old"], after: ["e #new"], previousLine: "d", nextLine: null},
+        ]);
+    });
+
+    it("records inserted and deleted lines at their position in the edited file", () => {
+        expect(diffLines(["a", "b", "c"], ["x", "a", "c", "y"])).toEqual([
+            {line: 0, before: [], after: ["x"], previousLine: null, nextLine: "a"},
+            {line: 2, before: ["b"], after: [], previousLine: "a", nextLine: "c"},
+            {line: 3, before: [], after: ["y"], previousLine: "c", nextLine: null},
+        ]);
+    });
+
+    it("turns the edited lines back into the original ones", () => {
+        let seed = 7;
+        const random = (n: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % n;
+        };
+        for (let run = 0; run < 200; run++) {
+            const before = Array.from({length: random(12)}, () => "abc"[random(3)]);
+            const after = before.flatMap((line) => {
+                const roll = random(6);
+                return roll === 0 ? [] : roll === 1 ? [line, "abcd"[random(4)]] : roll === 2 ? ["d"] : [line];
+            });
+            expect(apply(before, after)).toEqual(before);
+        }
+    });
+});
+
+describe("TagEditJournal", () => {
+    it("journals only the frontmatter when the body is unchanged", () => {
+        const after = NOTE.replace("tags: [a]", "tags: [a, b]");
+        expect(createJournalRecord("n.md", NOTE, after)).toEqual({path: "n.md", before: "---\ntags: [a]\n---\n", after: "---\ntags: [a, b]\n---\n"});
+    });
+
+    it("journals the changed lines instead of the whole note when the body changed", async () => {
+        const vault = createVault({"n.md": NOTE});
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        const entry = await edit(journal, vault, "n.md", (content) => content.replace(/#old/g, "#new").replace("tags: [a]", "tags: [a, new]"));
+
+        expect(entry.files[0].changes!.map(({line, before, after}) => ({line, before, after}))).toEqual([
+            {line: 1, before: ["tags: [a]"], after: ["tags: [a, new]"]},
+            {line: 4, before: ["intro #old"], after: ["intro #new"]},
+            {line: 8, before: ["more #old text"], after: ["more #new text"]},
+        ]);
+        expect(vault.written.get("journal.json")).not.toContain("middle");
+
+        expect(await journal.revert(entry)).toEqual({reverted: ["n.md"], conflicts: [], partial: [], failed: [], missing: []});
+        expect(vault.read("n.md")).toBe(NOTE);
+        expect(entry.reverted).toBe(true);
+    });
+
+    it("reverts body edits when other lines changed since", async () => {
+        const vault = createVault({"n.md": NOTE});
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        const entry = await edit(journal, vault, "n.md", (content) => content.replace(/#old/g, "#new"));
+        vault.write("n.md", vault.read("n.md").replace("middle", "changed later"));
+
+        await journal.revert(entry);
+        expect(vault.read("n.md")).toBe(NOTE.replace("middle", "changed later"));
+    });
+
+    it("skips edited lines as a conflict unless forced, then keeps them", async () => {
+        const vault = createVault({"n.md": NOTE});
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        const entry = await edit(journal, vault, "n.md", (content) => content.replace(/#old/g, "#new"));
+        const edited = vault.read("n.md").replace("intro #new", "intro #new and more");
+        vault.write("n.md", edited);
+
+        expect(await journal.revert(entry)).toEqual({reverted: [], conflicts: ["n.md"], partial: [], failed: [], missing: []});
+        expect(vault.read("n.md")).toBe(edited);
+        expect(entry.reverted).toBe(false);
+
+        expect(await journal.revert(entry, true)).toEqual({reverted: [], conflicts: [], partial: ["n.md"], failed: [], missing: []});
+        expect(vault.read("n.md")).toBe(NOTE.replace("intro #old", "intro #new and more"));
+        expect(entry.reverted).toBe(true);
+    });
+
+    it("doesn't put deleted lines back where the lines around them changed", async () => {
+        const note = ["---", "tags:", "  - machine-learning", "  - ml", "---", "About #ml", "", "Notes"].join("\n");
+        const vault = createVault({"n.md": note});
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        const entry = await edit(journal, vault, "n.md", (content) =>
+            content.replace("\n  - ml", "").replace("#ml", "#machine-learning"));
+        const edited = ["---", "tags: [machine-learning, ai]", "status: done", "---", "Intro", "About #machine-learning", "", "Notes"].join("\n");
+        vault.write("n.md", edited);
+
+        expect(await journal.revert(entry)).toEqual({reverted: [], conflicts: ["n.md"], partial: [], failed: [], missing: []});
+        expect(vault.read("n.md")).toBe(edited);
+
+        expect(await journal.revert(entry, true)).toEqual({reverted: [], conflicts: [], partial: ["n.md"], failed: [], missing: []});
+        expect(vault.read("n.md")).toBe(edited);
+        expect(entry.reverted).toBe(true);
+    });
+
+    it("keeps files that can't be written in the entry and still saves the others", async () => {
+        const after = NOTE.replace("tags: [a]", "tags: [a, b]");
+        const vault = createVault({"a.md": after, "b.md": after}, ["a.md"]);
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        await journal.record("Add b", [createJournalRecord("a.md", NOTE, after), createJournalRecord("b.md", NOTE, after)]);
+        const consoleError = console.error;
+        console.error = () => {};
+
+        const entry = journal.getLastRevertable()!;
+        expect(await journal.revert(entry)).toEqual({reverted: ["b.md"], conflicts: [], partial: [], failed: ["a.md"], missing: []});
+        expect(vault.read("b.md")).toBe(NOTE);
+        expect(entry.files.map((record) => record.path)).toEqual(["a.md"]);
+        expect((JSON.parse(vault.written.get("journal.json")!) as JournalEntry[])[0].files).toHaveLength(1);
+        console.error = consoleError;
+    });
+
+    it("restores the frontmatter and reports a changed one as a conflict", async () => {
+        const vault = createVault({"a.md": NOTE, "b.md": NOTE});
+        const journal = new TagEditJournal(vault.app, "journal.json", () => 20);
+        const before = vault.read("a.md");
+        const after = before.replace("tags: [a]", "tags: [a, b]");
+        vault.write("a.md", after);
+        vault.write("b.md", after);
+        await journal.record("Add b", [createJournalRecord("a.md", before, after), createJournalRecord("b.md", before, after)]);
+        vault.write("b.md", after.replace("[a, b]", "[a, b, c]"));
+
+        const entry = journal.getLastRevertable()!;
+        expect(await journal.revert(entry)).toEqual({reverted: ["a.md"], conflicts: ["b.md"], partial: [], failed: [], missing: []});
+        expect(vault.read("a.md")).toBe(NOTE);
+        expect(entry.files.map((record) => record.path)).toEqual(["b.md"]);
+    });
+});
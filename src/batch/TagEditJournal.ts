@@ -0,0 +1,334 @@
+import { App, getFrontMatterInfo, TFile } from "obsidian";
+
+/**
+ * The state of one file before and after a bulk edit.
+ * For the (default) "frontmatter" region, `before`/`after` hold the raw frontmatter
+ * block (including the `---` fences), or `null` when the file had no frontmatter at
+ * that point. For the "lines" region, used when the edit also touched inline tags in
+ * the body, `changes` holds only the lines that differ.
+ */
+export interface JournalFileRecord {
+    path: string;
+    region?: "frontmatter" | "lines";
+    before?: string | null;
+    after?: string | null;
+    changes?: JournalLineChange[];
+}
+
+/**
+ * A run of lines replaced by an edit: `after` starts at line `line` (0-based) of the
+ * edited file and replaced `before`. The unchanged lines around it (`null` at the start
+ * or end of the file) tell whether the run is still at that line when reverting.
+ */
+export interface JournalLineChange {
+    line: number;
+    before: string[];
+    after: string[];
+    previousLine: string | null;
+    nextLine: string | null;
+}
+
+/**
+ * A single bulk operation that can be reverted.
+ */
+export interface JournalEntry {
+    id: string;
+    timestamp: number;
+    description: string;
+    files: JournalFileRecord[];
+    reverted: boolean;
+}
+
+/**
+ * Outcome of reverting a journal entry, by file path.
+ */
+export interface RevertResult {
+    reverted: string[];
+    conflicts: string[]; // changed since the operation, left untouched
+    partial: string[];   // forced, but some changed lines were edited or moved since and were kept
+    failed: string[];    // could not be written, e.g. locked; left in the entry
+    missing: string[];   // deleted or renamed since the operation
+}
+
+/**
+ * Records the previous frontmatter (or changed lines) of every file touched by a bulk
+ * edit so the edit can be undone later. Entries are persisted as JSON in the plugin folder
+ * (not in data.json, which only holds settings).
+ */
+export class TagEditJournal {
+    private app: App;
+    private journalPath: string;
+    private getMaxEntries: () => number;
+    private entries: JournalEntry[] = [];
+
+    constructor(app: App, journalPath: string, getMaxEntries: () => number) {
+        this.app = app;
+        this.journalPath = journalPath;
+        this.getMaxEntries = getMaxEntries;
+    }
+
+    /**
+     * Load the persisted journal. A missing or unreadable file starts an empty journal.
+     */
+    public async load(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        try {
+            if (!(await adapter.exists(this.journalPath))) {
+                this.entries = [];
+                return;
+            }
+            const data = JSON.parse(await adapter.read(this.journalPath)) as unknown;
+            this.entries = Array.isArray(data) ? (data as JournalEntry[]) : [];
+        } catch (e) {
+            console.error("Tag Tactician: could not read the bulk edit journal", e);
+            this.entries = [];
+        }
+    }
+
+    private async save(): Promise<void> {
+        await this.app.vault.adapter.write(this.journalPath, JSON.stringify(this.entries));
+    }
+
+    /**
+     * All entries, newest first.
+     */
+    public getEntries(): JournalEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    /**
+     * The most recent entry that has not been reverted yet.
+     */
+    public getLastRevertable(): JournalEntry | null {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (!this.entries[i].reverted) return this.entries[i];
+        }
+        return null;
+    }
+
+    /**
+     * Append a new entry, dropping the oldest ones beyond the configured limit.
+     * Operations that modified no files are not recorded.
+     */
+    public async record(description: string, files: JournalFileRecord[]): Promise<void> {
+        if (files.length === 0) return;
+
+        this.entries.push({
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: Date.now(),
+            description,
+            files,
+            reverted: false,
+        });
+
+        const maxEntries = Math.max(1, this.getMaxEntries());
+        if (this.entries.length > maxEntries) {
+            this.entries.splice(0, this.entries.length - maxEntries);
+        }
+        await this.save();
+    }
+
+    /**
+     * Restore the recorded `before` state of each file in the entry.
+     *
+     * A file whose frontmatter (or changed lines) no longer matches the recorded `after` state was
+     * changed after the operation; it is skipped and reported as a conflict unless
+     * `force` is set. Conflicting files stay in the entry so the user can retry (or force)
+     * later; deleted or renamed files can't be reverted and are dropped from it, so an entry
+     * left with only those counts as reverted. A forced revert restores the changed lines that
+     * are still in place and reports the file as partial when it had to keep others. Files that
+     * can't be written are reported as failed and stay in the entry; the entry is saved either way.
+     */
+    public async revert(entry: JournalEntry, force: boolean = false): Promise<RevertResult> {
+        const result: RevertResult = { reverted: [], conflicts: [], partial: [], failed: [], missing: [] };
+        const remaining: JournalFileRecord[] = [];
+
+        for (const record of entry.files) {
+            const file = this.app.vault.getAbstractFileByPath(record.path);
+            if (!(file instanceof TFile)) {
+                result.missing.push(record.path);
+                continue;
+            }
+
+            let conflict = false;
+            let partial = false;
+            try {
+                await this.app.vault.process(file, (content: string): string => {
+                    if (record.region === "lines") {
+                        const lines = content.split("\n");
+                        const changes = record.changes ?? [];
+                        const matches = changes.map((change) => isChangeInPlace(lines, change));
+                        if (matches.includes(false)) {
+                            if (!force) {
+                                conflict = true;
+                                return content;
+                            }
+                            partial = true;
+                        }
+                        // Last change first, so the line numbers of the earlier ones stay valid.
+                        // Forced: lines edited since the operation are kept as they are now
+                        for (let i = changes.length - 1; i >= 0; i--) {
+                            if (matches[i]) lines.splice(changes[i].line, changes[i].after.length, ...changes[i].before);
+                        }
+                        return lines.join("\n");
+                    }
+
+                    const current = getFrontmatterBlock(content);
+                    if (!force && current !== record.after) {
+                        conflict = true;
+                        return content;
+                    }
+                    const body = current === null ? content : content.slice(current.length);
+                    return (record.before ?? "") + body;
+                });
+
+                if (conflict) {
+                    result.conflicts.push(record.path);
+                    remaining.push(record);
+                } else if (partial) {
+                    result.partial.push(record.path);
+                } else {
+                    result.reverted.push(record.path);
+                }
+            } catch (e) {
+                console.error(`Tag Tactician: could not revert ${record.path}`, e);
+                result.failed.push(record.path);
+                remaining.push(record);
+            }
+        }
+
+        entry.files = remaining;
+        entry.reverted = remaining.length === 0;
+        await this.save();
+        return result;
+    }
+}
+
+/**
+ * Returns the raw frontmatter block of `content` including both `---` fences
+ * and the trailing newline, or `null` if the file has no frontmatter.
+ */
+export function getFrontmatterBlock(content: string): string | null {
+    const info = getFrontMatterInfo(content);
+    return info.exists ? content.slice(0, info.contentStart) : null;
+}
+
+/**
+ * Whether the lines an edit wrote are still at the recorded line, between the same neighbours.
+ */
+function isChangeInPlace(lines: string[], change: JournalLineChange): boolean {
+    const end = change.line + change.after.length;
+    return change.after.every((line, i) => lines[change.line + i] === line) &&
+        (change.line === 0 ? change.previousLine === null : lines[change.line - 1] === change.previousLine) &&
+        (end === lines.length ? change.nextLine === null : lines[end] === change.nextLine);
+}
+
+/**
+ * The journal record for one file changed from `before` to `after`: just the frontmatter
+ * blocks when the body is unchanged, otherwise the lines that differ.
+ */
+export function createJournalRecord(path: string, before: string, after: string): JournalFileRecord {
+    const frontmatterBefore = getFrontmatterBlock(before);
+    const frontmatterAfter = getFrontmatterBlock(after);
+    if (before.slice(frontmatterBefore?.length ?? 0) === after.slice(frontmatterAfter?.length ?? 0)) {
+        return { path, before: frontmatterBefore, after: frontmatterAfter };
+    }
+    return { path, region: "lines", changes: diffLines(before.split("\n"), after.split("\n")) };
+}
+
+/** Beyond this many inserted or deleted lines the changed range is recorded as one change. */
+const MAX_DIFF_EDITS = 500;
+
+/**
+ * The line changes turning `before` into `after`, found with Myers' O(ND) diff after
+ * trimming the common leading and trailing lines. Tag edits change a few scattered
+ * lines, so only those are kept instead of two copies of the note.
+ */
+export function diffLines(before: string[], after: string[]): JournalLineChange[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+    if (a.length === 0 && b.length === 0) return [];
+    if (a.length === 0 || b.length === 0) return [createLineChange(after, start, a, b)];
+
+    // trace[d][k + d] is the furthest line of `a` reached on diagonal k (x - y) with d edits
+    const trace: Int32Array[] = [];
+    let done = false;
+    for (let d = 0; d <= Math.min(a.length + b.length, MAX_DIFF_EDITS) && !done; d++) {
+        const previous = trace[d - 1];
+        const furthest = new Int32Array(2 * d + 1);
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (d === 0) x = 0;
+            else if (k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1])) x = previous[k + 1 + d - 1];
+            else x = previous[k - 1 + d - 1] + 1;
+            let y = x - k;
+            while (x < a.length && y < b.length && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            furthest[k + d] = x;
+            if (x >= a.length && y >= b.length) {
+                done = true;
+                break;
+            }
+        }
+        trace.push(furthest);
+    }
+    if (!done) return [createLineChange(after, start, a, b)];
+
+    // Walk back from the end, marking the deleted lines of `a` and the inserted lines of `b`
+    const deleted = new Uint8Array(a.length);
+    const inserted = new Uint8Array(b.length);
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const previous = trace[d - 1];
+        const k = x - y;
+        const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+        const previousK = down ? k + 1 : k - 1;
+        const previousX = previous[previousK + d - 1];
+        const previousY = previousX - previousK;
+        if (down) inserted[previousY] = 1;
+        else deleted[previousX] = 1;
+        x = previousX;
+        y = previousY;
+    }
+
+    const changes: JournalLineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && !deleted[i] && !inserted[j]) {
+            i++;
+            j++;
+            continue;
+        }
+        const line = start + j;
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (i < a.length && deleted[i]) removed.push(a[i++]);
+        while (j < b.length && inserted[j]) added.push(b[j++]);
+        changes.push(createLineChange(after, line, removed, added));
+    }
+    return changes;
+}
+
+/** A change at `line` of the edited file `after`, with the lines around it. */
+function createLineChange(after: string[], line: number, removed: string[], added: string[]): JournalLineChange {
+    const end = line + added.length;
+    return {
+        line,
+        before: removed,
+        after: added,
+        previousLine: line > 0 ? after[line - 1] : null,
+        nextLine: end < after.length ? after[end] : null,
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * Obsidian treats tags that differ only in case (`#Project`, `#project`) as the same tag.
+ * These helpers give every part of the plugin the same notion of "same tag".
+ */
+
+/** The identity of a tag: differently cased spellings share one key. */
+export function tagKey(tag: string): string {
+    return tag.toLowerCase();
+}
+
+export function isSameTag(a: string, b: string): boolean {
+    return tagKey(a) === tagKey(b);
+}
+
+/** Whether `tags` contains `tag` in any casing. */
+export function includesTag(tags: Iterable<string>, tag: string): boolean {
+    const key = tagKey(tag);
+    for (const t of tags) {
+        if (tagKey(t) === key) return true;
+    }
+    return false;
+}
+
+/**
+ * Drops tags that repeat an earlier tag in another casing; the first spelling is kept.
+ */
+export function uniqueTags(tags: Iterable<string>): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const tag of tags) {
+        const key = tagKey(tag);
+        if (!seen.has(key)) {
+            seen.add(key);
+            result.push(tag);
+        }
+    }
+    return result;
+}
+
+/**
+ * Picks one display spelling per tag across many notes: the most used spelling of each
+ * nesting level wins, ties going to the one seen first. Levels are decided separately,
+ * so `Project/alpha` and `project/Beta` both display under the same parent.
+ */
+export class TagCasing {
+    // lowercased prefix ("project/alpha") => spelling of its last level => count
+    private spellings: Map<string, Map<string, number>> = new Map();
+
+    /** Counts the spelling of every level of `tag`. */
+    add(tag: string) {
+        const segments = tag.split("/");
+        for (let i = 1; i <= segments.length; i++) {
+            const key = tagKey(segments.slice(0, i).join("/"));
+            const counts = this.spellings.get(key) ?? new Map<string, number>();
+            counts.set(segments[i - 1], (counts.get(segments[i - 1]) ?? 0) + 1);
+            this.spellings.set(key, counts);
+        }
+    }
+
+    /** `tag` spelled in the canonical casing (unknown levels keep their casing). */
+    display(tag: string): string {
+        const segments = tag.split("/");
+        return segments.map((segment, i) => {
+            const counts = this.spellings.get(tagKey(segments.slice(0, i + 1).join("/")));
+            if (!counts) return segment;
+            let best = segment;
+            let bestCount = 0;
+            for (const [spelling, count] of counts) {
+                if (count > bestCount) {
+                    best = spelling;
+                    bestCount = count;
+                }
+            }
+            return best;
+        }).join("/");
+    }
+}
@@ -0,0 +1,60 @@
+import { App, TFile } from "obsidian";
+import { DEFAULT_SETTINGS, TagOrderPolicy } from "../settings/PluginSettings";
+import { buildFrontmatterToInlineUpdates, buildInlineToFrontmatterUpdates } from "./TagMigration";
+
+function createVault(contents: Record<string, string>) {
+    const files = Object.keys(contents).map((path) => Object.assign(new TFile(), {path}));
+    const app = {
+        vault: {cachedRead: (file: TFile) => Promise.resolve(contents[file.path])},
+        metadataCache: {getFileCache: () => null},
+    } as unknown as App;
+    return {app, files};
+}
+
+function settings(tagOrder: TagOrderPolicy) {
+    return {...DEFAULT_SETTINGS, tagOrder};
+}
+
+describe("buildInlineToFrontmatterUpdates", () => {
+    const {app, files} = createVault({
+        "a.md": "---\ntags: [Project, zeta]\n---\nSee #project and #Alpha, #alpha again",
+        "b.md": "---\ntags: [a]\n---\nNo inline tags",
+    });
+
+    it("appends the inline tags not in the frontmatter in any casing", async () => {
+        const updates = await buildInlineToFrontmatterUpdates(app, settings("preserve"), files, false);
+        expect(updates).toHaveLength(1);
+        expect(updates[0].finalTags).toEqual(["Project", "zeta", "Alpha"]);
+        expect(updates[0].inlineTagReplacer!("project")).toBeNull();
+    });
+
+    it("orders the result by the tag order setting and can keep the inline tags", async () => {
+        const [update] = await buildInlineToFrontmatterUpdates(app, settings("alphabetical"), files, true);
+        expect(update.finalTags).toEqual(["Alpha", "Project", "zeta"]);
+        expect(update.inlineTagReplacer).toBeUndefined();
+    });
+});
+
+describe("buildFrontmatterToInlineUpdates", () => {
+    const {app, files} = createVault({
+        "a.md": "---\ntags: [zeta, Project, two words, 2024]\n---\nAlready has #project",
+        "b.md": "---\ntags: [zeta, alpha]\n---\nBody",
+        "c.md": "No frontmatter #tag",
+    });
+
+    it("moves the frontmatter tags that can be written inline and aren't there yet", async () => {
+        const updates = await buildFrontmatterToInlineUpdates(app, settings("preserve"), files, false);
+        expect(updates.map((update) => [update.finalTags, update.appendInlineTags])).toEqual([
+            [["two words", "2024"], ["zeta"]],
+            [[], ["zeta", "alpha"]],
+        ]);
+    });
+
+    it("orders the appended tags by the tag order setting and can keep the frontmatter", async () => {
+        const updates = await buildFrontmatterToInlineUpdates(app, settings("alphabetical"), files, true);
+        expect(updates.map((update) => [update.finalTags, update.appendInlineTags])).toEqual([
+            [undefined, ["zeta"]],
+            [undefined, ["alpha", "zeta"]],
+        ]);
+    });
+});
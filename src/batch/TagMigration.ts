@@ -0,0 +1,73 @@
+import { App, TFile } from "obsidian";
+import { TagUpdate } from "./FileTagProcessor";
+import { findInlineTags, isValidInlineTag } from "./InlineTagParser";
+import { includesTag, uniqueTags } from "./TagIdentity";
+import { orderTags, TagOrderSettings } from "./TagOrder";
+import { readFileTags, TagPropertySettings } from "./TagReader";
+
+/**
+ * Builds updates that copy every inline `#tag` of each file into its frontmatter `tags`.
+ * Tags already in the frontmatter (in any casing) are not duplicated, and the result is
+ * ordered by the tag order setting. Unless `keepSource` is set, the inline occurrences
+ * are removed from the body. Files without inline tags are skipped.
+ */
+export async function buildInlineToFrontmatterUpdates(
+    app: App,
+    settings: TagPropertySettings & TagOrderSettings,
+    files: TFile[],
+    keepSource: boolean
+): Promise<TagUpdate[]> {
+    const updates: TagUpdate[] = [];
+
+    for (const file of files) {
+        const inlineTags = findInlineTags(await app.vault.cachedRead(file)).map((match) => match.tag);
+        if (inlineTags.length === 0) continue;
+
+        const frontmatterTags = await readFileTags(app, file, settings);
+
+        updates.push({
+            file,
+            finalTags: orderTags(uniqueTags([...frontmatterTags, ...inlineTags]), settings.tagOrder),
+            inlineTagReplacer: keepSource ? undefined : () => null,
+        });
+    }
+
+    return updates;
+}
+
+/**
+ * Builds updates that write each file's frontmatter tags as a line of inline `#tags`
+ * at the end of the note, ordered by the tag order setting. Tags already present inline
+ * (in any casing) are not repeated, and tags that cannot be written inline (spaces,
+ * punctuation, purely numeric) stay in the frontmatter.
+ * Unless `keepSource` is set, the converted tags are removed from the frontmatter.
+ * Files without frontmatter tags are skipped.
+ */
+export async function buildFrontmatterToInlineUpdates(
+    app: App,
+    settings: TagPropertySettings & TagOrderSettings,
+    files: TFile[],
+    keepSource: boolean
+): Promise<TagUpdate[]> {
+    const updates: TagUpdate[] = [];
+
+    for (const file of files) {
+        const frontmatterTags = await readFileTags(app, file, settings);
+        if (frontmatterTags.length === 0) continue;
+
+        const inlineTags = findInlineTags(await app.vault.cachedRead(file)).map((match) => match.tag);
+        const convertible = frontmatterTags.filter(isValidInlineTag);
+        const remaining = frontmatterTags.filter((tag) => !isValidInlineTag(tag));
+
+        updates.push({
+            file,
+            finalTags: keepSource ? undefined : remaining,
+            appendInlineTags: orderTags(
+                convertible.filter((tag) => !includesTag(inlineTags, tag)),
+                settings.tagOrder
+            ),
+        });
+    }
+
+    return updates;
+}
@@ -0,0 +1,27 @@
+import { orderTags } from "./TagOrder";
+
+describe("orderTags", () => {
+    it("keeps the given order with preserve, so added tags stay appended", () => {
+        const current = ["zeta", "Alpha", "beta"];
+        const ordered = orderTags([...current, "aardvark"], "preserve");
+        expect(ordered).toEqual(["zeta", "Alpha", "beta", "aardvark"]);
+        expect(orderTags(current, "preserve")).not.toBe(current);
+    });
+
+    it("sorts case-insensitively with alphabetical, numbers by value", () => {
+        expect(orderTags(["beta", "B", "alpha", "Charlie", "A", "v10", "v2"], "alphabetical"))
+            .toEqual(["A", "alpha", "B", "beta", "Charlie", "v2", "v10"]);
+    });
+
+    it("groups nested tags under their top-level tag in any casing with hierarchical", () => {
+        expect(orderTags(["zeta", "Project/b", "alpha", "project", "zeta/x", "PROJECT/a", "project/a/deep"], "hierarchical"))
+            .toEqual(["zeta", "zeta/x", "project", "PROJECT/a", "project/a/deep", "Project/b", "alpha"]);
+    });
+
+    it("doesn't change its input", () => {
+        const tags = ["b", "a"];
+        orderTags(tags, "alphabetical");
+        orderTags(tags, "hierarchical");
+        expect(tags).toEqual(["b", "a"]);
+    });
+});
@@ -0,0 +1,37 @@
+import { TagOrderPolicy } from "../settings/PluginSettings";
+
+/** How edited tag lists are ordered. */
+export interface TagOrderSettings {
+    tagOrder: TagOrderPolicy;
+}
+
+/**
+ * Returns `tags` in the order the policy asks for:
+ *
+ * - "preserve" keeps the order as given (existing tags first, added tags appended).
+ * - "alphabetical" sorts case-insensitively.
+ * - "hierarchical" groups nested tags under their top-level tag, keeping the groups in order
+ *   of first appearance; within a group, tags are sorted so parents come before their children.
+ */
+export function orderTags(tags: string[], policy: TagOrderPolicy): string[] {
+    switch (policy) {
+        case "preserve":
+            return [...tags];
+        case "alphabetical":
+            return [...tags].sort(compareTags);
+        case "hierarchical": {
+            const groups = new Map<string, string[]>();
+            for (const tag of tags) {
+                const root = tag.split("/")[0].toLowerCase();
+                const group = groups.get(root) ?? [];
+                group.push(tag);
+                groups.set(root, group);
+            }
+            return [...groups.values()].flatMap((group) => group.sort(compareTags));
+        }
+    }
+}
+
+function compareTags(a: string, b: string): number {
+    return a.localeCompare(b, undefined, {sensitivity: "base", numeric: true}) || (a < b ? -1 : a > b ? 1 : 0);
+}
@@ -0,0 +1,32 @@
+import { compileTagPattern, replaceTagByPattern } from "./TagPattern";
+
+describe("compileTagPattern", () => {
+    it("matches whole tags with glob wildcards, ignoring case", () => {
+        const pattern = compileTagPattern("project/*", "glob");
+        expect(pattern.test("Project/Alpha")).toBe(true);
+        expect(pattern.test("project/alpha/notes")).toBe(false);
+        expect(pattern.test("my-project/alpha")).toBe(false);
+        expect(compileTagPattern("project/**", "glob").test("project/alpha/notes")).toBe(true);
+        expect(compileTagPattern("v?", "glob").test("v2")).toBe(true);
+    });
+
+    it("escapes regex characters in globs", () => {
+        expect(compileTagPattern("a.b", "glob").test("axb")).toBe(false);
+    });
+
+    it("throws on an invalid regex", () => {
+        expect(() => compileTagPattern("(", "regex")).toThrow(SyntaxError);
+    });
+});
+
+describe("replaceTagByPattern", () => {
+    it("fills in the wildcards' captures", () => {
+        expect(replaceTagByPattern("project/alpha", compileTagPattern("project/*", "glob"), "work/$1")).toBe("work/alpha");
+    });
+
+    it("leaves non-matching tags alone and removes emptied ones", () => {
+        const pattern = compileTagPattern("^draft$", "regex");
+        expect(replaceTagByPattern("final", pattern, "")).toBe("final");
+        expect(replaceTagByPattern("draft", pattern, "")).toBeNull();
+    });
+});
@@ -0,0 +1,44 @@
+/** How a find pattern is interpreted. */
+export type TagPatternKind = "regex" | "glob";
+
+/**
+ * Compiles a find pattern into a case-insensitive regular expression.
+ *
+ * "regex" patterns are used as-is (anchor them with ^/$ to match whole tags).
+ * "glob" patterns always match the whole tag: `*` matches within one tag segment,
+ * `**` matches across `/`, and `?` matches a single character. Each wildcard is a
+ * capture group, so replacements can refer to them as `$1`, `$2`, ...
+ *
+ * @throws SyntaxError if a regex pattern is invalid
+ */
+export function compileTagPattern(pattern: string, kind: TagPatternKind): RegExp {
+    if (kind === "regex") {
+        return new RegExp(pattern, "i");
+    }
+
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*") {
+            source += "(.*)";
+            i++;
+        } else if (char === "*") {
+            source += "([^/]*)";
+        } else if (char === "?") {
+            source += "([^/])";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Applies the pattern to a single tag. Non-matching tags are returned unchanged;
+ * a replacement that ends up empty removes the tag (`null`).
+ */
+export function replaceTagByPattern(tag: string, pattern: RegExp, template: string): string | null {
+    if (!pattern.test(tag)) return tag;
+    const replaced = tag.replace(pattern, template).trim().replace(/^#/, "");
+    return replaced.length > 0 ? replaced : null;
+}
@@ -0,0 +1,35 @@
+import { App, TFile } from "obsidian";
+import { TagPreset } from "../settings/PluginSettings";
+import { TagUpdate } from "./FileTagProcessor";
+import { readFileTags, TagPropertySettings } from "./TagReader";
+import { orderTags, TagOrderSettings } from "./TagOrder";
+import { includesTag } from "./TagIdentity";
+
+/** The saved tag bundles. */
+export interface TagPresetSettings {
+    tagPresets: TagPreset[];
+}
+
+/**
+ * A new, empty preset with a stable id (commands and hotkeys refer to the id, so renaming keeps them).
+ */
+export function createTagPreset(): TagPreset {
+    return {id: Date.now().toString(36), name: "New preset", tags: []};
+}
+
+/**
+ * Builds the update that adds tags (e.g. a preset's) to a note, ordered by the tag order
+ * setting, or null if the note already has all of them.
+ */
+export async function buildAddTagsUpdate(
+    app: App,
+    settings: TagPropertySettings & TagOrderSettings,
+    file: TFile,
+    tags: string[]
+): Promise<TagUpdate | null> {
+    const currentTags = await readFileTags(app, file, settings);
+    const missing = tags.filter((tag) => !includesTag(currentTags, tag));
+    if (missing.length === 0) return null;
+
+    return {file, finalTags: orderTags([...currentTags, ...missing], settings.tagOrder)};
+}
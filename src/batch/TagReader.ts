@@ -1,44 +1,104 @@
-import { App, getFrontMatterInfo, parseFrontMatterTags, parseYaml, TFile } from "obsidian";
+import { App, getFrontMatterInfo, parseYaml, TFile } from "obsidian";
+import { includesTag } from "./TagIdentity";
+
+/** Which frontmatter properties hold tags. */
+export interface TagPropertySettings {
+    tagPropertyNames: string[]; // e.g. ["tags", "tag", "topics"], matched case-insensitively
+    tagWriteProperty: string;   // the property that receives the tags, e.g. "tags"; always read too
+}
+
+/**
+ * The properties tags are read from: `tagPropertyNames`, plus the write target if it isn't
+ * one of them, so tags written there are never lost.
+ */
+export function getTagPropertyNames(settings: TagPropertySettings): string[] {
+    const target = settings.tagWriteProperty;
+    return settings.tagPropertyNames.some((name) => name.toLowerCase() === target.toLowerCase())
+        ? settings.tagPropertyNames
+        : [...settings.tagPropertyNames, target];
+}
 
 /**
- * Returns the tags for a file, stripping leading '#'.
+ * Returns the frontmatter tags for a file, merged from every recognized tag property
+ * and stripped of leading '#'.
+ */
+export async function readFileTags(app: App, file: TFile, settings: TagPropertySettings): Promise<string[]> {
+    return collectFrontmatterTags(await readFrontmatter(app, file), getTagPropertyNames(settings));
+}
+
+/**
+ * Returns a file's parsed frontmatter (null if it has none or it is invalid).
  * Tries the metadata cache first; if unavailable, reads the file content directly.
  */
-export async function readFileTags(app: App, file: TFile): Promise<string[]> {
+export async function readFrontmatter(app: App, file: TFile): Promise<Record<string, unknown> | null> {
     const cache = app.metadataCache.getFileCache(file);
-    let tags: string[];
-
     if (cache) {
-        tags = parseFrontMatterTags(cache.frontmatter) ?? [];
-    } else {
-        tags = await readTagsFromContent(app, file);
+        return cache.frontmatter ?? null;
     }
 
-    return tags.map((t) => t.startsWith("#") ? t.slice(1) : t);
+    return parseFrontmatter(await app.vault.cachedRead(file));
 }
 
-async function readTagsFromContent(app: App, file: TFile): Promise<string[]> {
-    const content = await app.vault.cachedRead(file);
+/**
+ * Parses the frontmatter of raw note content (null if it has none or it is invalid).
+ */
+export function parseFrontmatter(content: string): Record<string, unknown> | null {
     const fmInfo = getFrontMatterInfo(content);
-    if (!fmInfo.exists) return [];
+    if (!fmInfo.exists) return null;
 
     try {
-        const fmData = parseYaml(fmInfo.frontmatter) as Record<string, unknown> | null | undefined;
-        return normalizeTags(fmData?.tags);
+        return (parseYaml(fmInfo.frontmatter) as Record<string, unknown> | null) ?? null;
     } catch {
-        return [];
+        return null;
+    }
+}
+
+/**
+ * Merges the values of all recognized tag properties, in the order the properties
+ * appear in the frontmatter. Duplicates, including other casings of a tag, are dropped.
+ */
+export function collectFrontmatterTags(
+    frontmatter: Record<string, unknown> | null | undefined,
+    propertyNames: string[]
+): string[] {
+    const tags: string[] = [];
+    for (const key of findTagPropertyKeys(frontmatter, propertyNames)) {
+        for (const tag of normalizeTags(frontmatter?.[key])) {
+            const stripped = tag.startsWith("#") ? tag.slice(1) : tag;
+            if (stripped.length > 0 && !includesTag(tags, stripped)) {
+                tags.push(stripped);
+            }
+        }
     }
+    return tags;
+}
+
+/**
+ * Returns the keys of `frontmatter` that are recognized tag properties, as spelled in the note.
+ */
+export function findTagPropertyKeys(
+    frontmatter: Record<string, unknown> | null | undefined,
+    propertyNames: string[]
+): string[] {
+    if (!frontmatter) return [];
+    const names = new Set(propertyNames.map((name) => name.toLowerCase()));
+    return Object.keys(frontmatter).filter((key) => names.has(key.toLowerCase()));
 }
 
 function normalizeTags(tagsValue: unknown): string[] {
-    if (!tagsValue) return [];
+    if (tagsValue === null || tagsValue === undefined) return [];
 
     if (Array.isArray(tagsValue)) {
         return tagsValue.flatMap((item) =>
-            typeof item === "string" ? [item] : []
+            typeof item === "string" ? [item] : typeof item === "number" ? [String(item)] : []
         );
     }
 
+    // YAML reads tags such as `2024` as numbers; they are still tags
+    if (typeof tagsValue === "number") {
+        return [String(tagsValue)];
+    }
+
     if (typeof tagsValue === "string") {
         return tagsValue
             .split(/[, ]+/)
@@ -0,0 +1,22 @@
+import { mergeTagValue, renameTagValue } from "./TagRenamer";
+
+describe("renameTagValue", () => {
+    it("renames the tag and moves its subtags along, in any casing", () => {
+        expect(renameTagValue("Project/Alpha", "project/alpha", "work/alpha")).toBe("work/alpha");
+        expect(renameTagValue("project/alpha/notes", "Project/Alpha", "work/alpha")).toBe("work/alpha/notes");
+        expect(renameTagValue("project/alphabet", "project/alpha", "work/alpha")).toBe("project/alphabet");
+    });
+
+    it("rewrites only the casing for a case-only rename", () => {
+        expect(renameTagValue("project", "project", "Project")).toBe("Project");
+        expect(renameTagValue("PROJECT/alpha", "project", "Project")).toBe("Project/alpha");
+        expect(renameTagValue("Project/alpha", "project", "Project")).toBe("Project/alpha");
+    });
+});
+
+describe("mergeTagValue", () => {
+    it("renames any of the sources into the target", () => {
+        expect(mergeTagValue("ML/papers", ["ml", "machinelearning"], "machine-learning")).toBe("machine-learning/papers");
+        expect(mergeTagValue("ai", ["ml", "machinelearning"], "machine-learning")).toBe("ai");
+    });
+});
@@ -0,0 +1,152 @@
+import { App, TFile } from "obsidian";
+import { TagUpdate } from "./FileTagProcessor";
+import { findInlineTags } from "./InlineTagParser";
+import { readFileTags, TagPropertySettings } from "./TagReader";
+import { uniqueTags } from "./TagIdentity";
+import { gatherTagsFromCache } from "../relatedView/TagIndexer";
+
+/**
+ * Maps a tag (without '#') to its new name. Returning the tag unchanged leaves it alone.
+ */
+export type TagMapping = (tag: string) => string;
+
+/**
+ * A single tag occurrence that a rename will change.
+ */
+export interface TagChange {
+    from: string;
+    to: string;
+}
+
+/**
+ * What a rename would do to one file.
+ */
+export interface TagRenamePreview {
+    file: TFile;
+    frontmatterChanges: TagChange[];
+    inlineChanges: TagChange[];
+}
+
+/**
+ * Number of files and occurrences a merge changes for one source tag.
+ */
+export interface TagMergeCount {
+    tag: string;
+    files: number;
+    occurrences: number;
+}
+
+/**
+ * Strips a leading '#' and any trailing '/' from user input.
+ */
+export function normalizeTagName(tag: string): string {
+    return tag.trim().replace(/^#/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Returns `tag` with the `from` prefix replaced by `to`, so that descendants move along:
+ * renaming "project/alpha" to "work/alpha" turns "project/alpha/notes" into "work/alpha/notes".
+ * Matching is case-insensitive, like Obsidian's tags. Non-matching tags are returned unchanged.
+ */
+export function renameTagValue(tag: string, from: string, to: string): string {
+    const lowerTag = tag.toLowerCase();
+    const lowerFrom = from.toLowerCase();
+    if (lowerTag === lowerFrom) return to;
+    if (lowerTag.startsWith(lowerFrom + "/")) return to + tag.slice(from.length);
+    return tag;
+}
+
+/**
+ * Returns the source tag that `tag` is (or is nested under), or `null` if none.
+ */
+export function matchSourceTag(tag: string, sources: string[]): string | null {
+    return sources.find((source) => renameTagValue(tag, source, "") !== tag) ?? null;
+}
+
+/**
+ * Renames `tag` into `target` if it is one of `sources` (or nested under one).
+ */
+export function mergeTagValue(tag: string, sources: string[], target: string): string {
+    const source = matchSourceTag(tag, sources);
+    return source === null ? tag : renameTagValue(tag, source, target);
+}
+
+/**
+ * Scans the vault for every frontmatter and inline tag that `mapTag` changes.
+ * The metadata cache narrows down the candidates; only those files are read.
+ */
+export async function previewTagChanges(
+    app: App,
+    settings: TagPropertySettings,
+    mapTag: TagMapping
+): Promise<TagRenamePreview[]> {
+    const previews: TagRenamePreview[] = [];
+
+    for (const file of app.vault.getMarkdownFiles()) {
+        const cache = app.metadataCache.getFileCache(file);
+        if (![...gatherTagsFromCache(cache, settings)].some((t) => mapTag(t) !== t)) continue;
+
+        const frontmatterChanges = (await readFileTags(app, file, settings))
+            .map((tag) => ({ from: tag, to: mapTag(tag) }))
+            .filter((change) => change.from !== change.to);
+
+        const content = await app.vault.cachedRead(file);
+        const inlineChanges = findInlineTags(content)
+            .map((match) => ({ from: match.tag, to: mapTag(match.tag) }))
+            .filter((change) => change.from !== change.to);
+
+        if (frontmatterChanges.length > 0 || inlineChanges.length > 0) {
+            previews.push({ file, frontmatterChanges, inlineChanges });
+        }
+    }
+
+    return previews;
+}
+
+/**
+ * Turns previews into updates for `applyTagUpdates`. Frontmatter tags keep their
+ * order; tags that end up with the same name in any casing are de-duplicated (the first
+ * spelling stays), and so are inline tags repeated on one line (see `replaceInlineTags`).
+ */
+export async function buildTagChangeUpdates(
+    app: App,
+    settings: TagPropertySettings,
+    previews: TagRenamePreview[],
+    mapTag: TagMapping
+): Promise<TagUpdate[]> {
+    const updates: TagUpdate[] = [];
+    for (const { file, frontmatterChanges } of previews) {
+        let finalTags: string[] | undefined;
+        if (frontmatterChanges.length > 0) {
+            const renamed = (await readFileTags(app, file, settings)).map(mapTag);
+            finalTags = uniqueTags(renamed);
+        }
+        updates.push({
+            file,
+            finalTags,
+            inlineTagReplacer: mapTag,
+        });
+    }
+    return updates;
+}
+
+/**
+ * Counts, per source tag, how many files and tag occurrences a merge changes.
+ */
+export function countMergeChanges(previews: TagRenamePreview[], sources: string[]): TagMergeCount[] {
+    const counts = sources.map((tag) => ({ tag, files: 0, occurrences: 0 }));
+
+    for (const preview of previews) {
+        const touched = new Set<TagMergeCount>();
+        for (const change of [...preview.frontmatterChanges, ...preview.inlineChanges]) {
+            const source = matchSourceTag(change.from, sources);
+            const count = counts.find((c) => c.tag === source);
+            if (!count) continue;
+            count.occurrences++;
+            touched.add(count);
+        }
+        touched.forEach((count) => count.files++);
+    }
+
+    return counts;
+}
@@ -1,5 +1,6 @@
 import { AbstractInputSuggest, App, TFile } from "obsidian";
-import { readFileTags } from './TagReader';
+import { readFileTags, TagPropertySettings } from './TagReader';
+import { uniqueTags } from './TagIdentity';
 
 
 // Base class for tag suggestions
@@ -7,10 +8,13 @@ import { readFileTags } from './TagReader';
 export abstract class TagSuggestBase extends AbstractInputSuggest<string> {
     protected inputEl: HTMLInputElement;
     protected onTagSelected: ((value: string) => void) | null = null;
+    protected multiple: boolean = true;
+    protected settings: TagPropertySettings;
 
-    constructor(app: App, inputEl: HTMLInputElement) {
+    constructor(app: App, inputEl: HTMLInputElement, settings: TagPropertySettings) {
         super(app, inputEl);
         this.inputEl = inputEl;
+        this.settings = settings;
         
         // Add input event listener to trigger updates on manual input as well
         this.inputEl.addEventListener('input', () => {
@@ -27,25 +31,37 @@ export abstract class TagSuggestBase extends AbstractInputSuggest<string> {
         this.onTagSelected = callback;
     }
 
+    /**
+     * Whether the input holds a comma separated list of tags (the default) or a single tag
+     */
+    setMultiple(multiple: boolean): this {
+        this.multiple = multiple;
+        return this;
+    }
+
     renderSuggestion(tag: string, el: HTMLElement): void {
         el.createEl("div", { cls: "tag-autocomplete-item", text: tag });
     }
 
     selectSuggestion(tag: string): void {
         const inputEl = this.inputEl;
-        const currentValue = inputEl.value ?? "";
-        const currentTags = currentValue.split(/[, ]+/).filter(t => t);
-        
-        // Replace the last tag with the selected suggestion
-        if (currentTags.length > 0) {
-            currentTags[currentTags.length - 1] = tag;
+        if (this.multiple) {
+            const currentValue = inputEl.value ?? "";
+            const currentTags = currentValue.split(/[, ]+/).filter(t => t);
+
+            // Replace the last tag with the selected suggestion
+            if (currentTags.length > 0) {
+                currentTags[currentTags.length - 1] = tag;
+            } else {
+                currentTags.push(tag);
+            }
+
+            // Add a comma and space at the end to prevent immediate re-triggering
+            inputEl.value = currentTags.join(", ") + ", ";
         } else {
-            currentTags.push(tag);
+            inputEl.value = tag;
         }
         
-        // Add a comma and space at the end to prevent immediate re-triggering
-        inputEl.value = currentTags.join(", ") + ", ";
-        
         // Place cursor at the end
         const newCursorPosition = inputEl.value.length;
         inputEl.setSelectionRange(newCursorPosition, newCursorPosition);
@@ -74,10 +90,10 @@ export class ExistingTagSuggest extends TagSuggestBase {
 
         const mdFiles = this.app.vault.getMarkdownFiles();
         for (const file of mdFiles) {
-            const tags = await readFileTags(this.app, file);
+            const tags = await readFileTags(this.app, file, this.settings);
             tags.forEach(t => allTags.add(t));
         }
-        return Array.from(allTags).sort();
+        return uniqueTags(allTags).sort();
     }
 
     private filterTags(tags: string[], inputStr: string): string[] {
@@ -102,8 +118,8 @@ export class ExistingTagSuggest extends TagSuggestBase {
 export class FileTagSuggest extends TagSuggestBase {
     private files: TFile[];
     
-    constructor(app: App, inputEl: HTMLInputElement, files: TFile[]) {
-        super(app, inputEl);
+    constructor(app: App, inputEl: HTMLInputElement, settings: TagPropertySettings, files: TFile[]) {
+        super(app, inputEl, settings);
         this.files = files;
     }
     
@@ -116,11 +132,11 @@ export class FileTagSuggest extends TagSuggestBase {
         const allTags: Set<string> = new Set();
 
         for (const file of this.files) {
-            const tags = await readFileTags(this.app, file);
+            const tags = await readFileTags(this.app, file, this.settings);
             tags.forEach(t => allTags.add(t));
         }
 
-        return Array.from(allTags).sort();
+        return uniqueTags(allTags).sort();
     }
     
     private filterTags(tags: string[], inputStr: string): string[] {
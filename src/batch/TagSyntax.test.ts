@@ -0,0 +1,44 @@
+import { findTagSyntaxError, normalizeTag, parseTagList } from "./TagSyntax";
+
+const allRules = {lowercase: true, spacesToDashes: true, stripHash: true, collapseSlashes: true};
+const noRules = {lowercase: false, spacesToDashes: false, stripHash: false, collapseSlashes: false};
+
+describe("normalizeTag", () => {
+    it("applies only the enabled rules", () => {
+        expect(normalizeTag("  ##My Tag//Sub/ ", allRules)).toBe("my-tag/sub");
+        expect(normalizeTag("  #My Tag ", noRules)).toBe("#My Tag");
+    });
+});
+
+describe("findTagSyntaxError", () => {
+    it.each([
+        ["#tag", '"#tag": leave out the leading #.'],
+        ["my tag", '"my tag": tags cannot contain spaces.'],
+        ["a.b", '"a.b": tags cannot contain ".".'],
+        ["2024", '"2024": tags need at least one character that isn\'t a number.'],
+        ["a//b", '"a//b": nested tags cannot have an empty level.'],
+    ])("rejects %p", (tag, message) => {
+        expect(findTagSyntaxError(tag)).toBe(message);
+    });
+
+    it("accepts nested tags, digits, dashes and underscores", () => {
+        expect(findTagSyntaxError("project/2024_q1-review")).toBeNull();
+    });
+});
+
+describe("parseTagList", () => {
+    it("splits, normalizes and reports invalid entries", () => {
+        expect(parseTagList("#a, b c, , a, x.y", {...noRules, stripHash: true})).toEqual({
+            tags: ["a"],
+            errors: ['"b c": tags cannot contain spaces.', '"x.y": tags cannot contain ".".'],
+        });
+    });
+
+    it("drops other casings of a tag, keeping the first", () => {
+        expect(parseTagList("Machine-Learning, machine-learning, ML, ml", noRules).tags).toEqual(["Machine-Learning", "ML"]);
+    });
+
+    it("keeps invalid entries, still normalized, without validation", () => {
+        expect(parseTagList("#a, 2024, x.y", {...noRules, stripHash: true}, false)).toEqual({tags: ["a", "2024", "x.y"], errors: []});
+    });
+});
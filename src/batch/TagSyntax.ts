@@ -0,0 +1,79 @@
+import { TagNormalizationRules } from "../settings/PluginSettings";
+import { includesTag } from "./TagIdentity";
+
+/** Which clean-ups are applied to tags typed into the add / rename inputs. */
+export interface TagSyntaxSettings {
+    tagNormalization: TagNormalizationRules;
+}
+
+/** Tags typed into an input, split into usable tags and the reasons the others were rejected. */
+export interface ParsedTagInput {
+    tags: string[];
+    errors: string[];
+}
+
+/**
+ * Applies the enabled normalization rules to a single tag as typed.
+ */
+export function normalizeTag(tag: string, rules: TagNormalizationRules): string {
+    let normalized = tag.trim();
+    if (rules.stripHash) {
+        normalized = normalized.replace(/^#+/, "");
+    }
+    if (rules.spacesToDashes) {
+        normalized = normalized.replace(/\s+/g, "-");
+    }
+    if (rules.collapseSlashes) {
+        normalized = normalized.replace(/\/{2,}/g, "/").replace(/^\/|\/$/g, "");
+    }
+    if (rules.lowercase) {
+        normalized = normalized.toLowerCase();
+    }
+    return normalized;
+}
+
+/**
+ * Checks a tag against Obsidian's tag syntax: letters, numbers, `_`, `-` and `/` for
+ * nesting, at least one character that isn't a digit, and no empty nesting level.
+ * Returns why the tag is invalid, or null.
+ */
+export function findTagSyntaxError(tag: string): string | null {
+    if (tag.startsWith("#")) {
+        return `"${tag}": leave out the leading #.`;
+    }
+    if (/\s/.test(tag)) {
+        return `"${tag}": tags cannot contain spaces.`;
+    }
+    const invalidChar = /[!"#$%&'()*+,.:;<=>?@[\\\]^`{|}~]/.exec(tag);
+    if (invalidChar) {
+        return `"${tag}": tags cannot contain "${invalidChar[0]}".`;
+    }
+    if (!/[^0-9/]/.test(tag)) {
+        return `"${tag}": tags need at least one character that isn't a number.`;
+    }
+    if (/^\/|\/\/|\/$/.test(tag)) {
+        return `"${tag}": nested tags cannot have an empty level.`;
+    }
+    return null;
+}
+
+/**
+ * Splits a comma separated input into normalized tags, leaving out (and reporting) the
+ * ones that aren't valid tags. Duplicates, including other casings of a tag, are dropped.
+ * With `validate` off every tag is kept, e.g. to remove tags that already exist in notes.
+ */
+export function parseTagList(input: string, rules: TagNormalizationRules, validate: boolean = true): ParsedTagInput {
+    const result: ParsedTagInput = {tags: [], errors: []};
+    for (const entry of input.split(",")) {
+        const tag = normalizeTag(entry, rules);
+        if (tag.length === 0) continue;
+
+        const error = validate ? findTagSyntaxError(tag) : null;
+        if (error) {
+            result.errors.push(error);
+        } else if (!includesTag(result.tags, tag)) {
+            result.tags.push(tag);
+        }
+    }
+    return result;
+}
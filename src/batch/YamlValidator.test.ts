@@ -0,0 +1,64 @@
+import { fixFrontmatter, validateFrontmatter } from "./YamlValidator";
+
+const TAG_PROPERTIES = ["tags", "tag"];
+
+/** Validates the note, applies the fix it suggests and checks the result parses. */
+function repair(content: string): string {
+    const problem = validateFrontmatter(content, TAG_PROPERTIES);
+    expect(problem?.fix).toBeTruthy();
+    const fixed = fixFrontmatter(content, problem!.fix!, "hyphens");
+    expect(validateFrontmatter(fixed, TAG_PROPERTIES)).toBeNull();
+    return fixed;
+}
+
+describe("validateFrontmatter", () => {
+    it("accepts valid frontmatter and notes without any", () => {
+        expect(validateFrontmatter("---\ntags: [a, b]\ntitle: x\n---\nBody", TAG_PROPERTIES)).toBeNull();
+        expect(validateFrontmatter("Just a body", TAG_PROPERTIES)).toBeNull();
+    });
+
+    it("reports the reason and the line in the note", () => {
+        expect(validateFrontmatter("---\ntitle: x\ntags: [a\n---\nBody", TAG_PROPERTIES)).toMatchObject({
+            line: expect.any(Number) as number,
+            fix: {kind: "unterminated-flow", line: 1},
+        });
+        expect(validateFrontmatter("---\ntags: a\ntags: b\n---\n", TAG_PROPERTIES)).toMatchObject({
+            message: "duplicated mapping key",
+            line: 3,
+        });
+    });
+});
+
+describe("fixFrontmatter", () => {
+    it("merges a repeated tag property", () => {
+        const duplicate = "---\ntags: [a, b]\ntitle: x\ntags:\n  - c\n  - a\n---\nBody";
+        expect(validateFrontmatter(duplicate, TAG_PROPERTIES)?.fix).toMatchObject({kind: "duplicate-key", key: "tags"});
+        expect(repair(duplicate)).toBe("---\ntags:\n  - a\n  - b\n  - c\ntitle: x\n---\nBody");
+    });
+
+    it("doesn't offer to merge other repeated properties", () => {
+        expect(validateFrontmatter("---\ntitle: a\ntitle: b\n---\n", TAG_PROPERTIES)).toMatchObject({fix: null});
+    });
+
+    it("replaces tab indentation with spaces", () => {
+        const content = "---\ntags:\n\t- a\n\t- b\n---\nBody\twith a tab";
+        expect(validateFrontmatter(content, TAG_PROPERTIES)?.fix?.kind).toBe("tabs");
+        expect(repair(content)).toBe("---\ntags:\n  - a\n  - b\n---\nBody\twith a tab");
+    });
+
+    it("closes an unterminated list, but not one continued on the next line", () => {
+        expect(repair("---\ntags: [a, b\ntitle: x\n---\nBody")).toBe("---\ntags: [a, b]\ntitle: x\n---\nBody");
+        expect(validateFrontmatter("---\ntags: [a,\n  b]\n---\n", TAG_PROPERTIES)).toBeNull();
+    });
+
+    it("keeps CRLF line endings", () => {
+        expect(repair("---\r\ntags: [a, b\r\ntitle: x\r\n---\r\nBody")).toBe("---\r\ntags: [a, b]\r\ntitle: x\r\n---\r\nBody");
+        expect(repair("---\r\ntags:\r\n\t- a\r\n---\r\nBody")).toBe("---\r\ntags:\r\n  - a\r\n---\r\nBody");
+    });
+
+    it("offers no fix for other errors", () => {
+        const problem = validateFrontmatter("---\ntitle: \"unclosed\ntags: [a]\n---\nBody", TAG_PROPERTIES);
+        expect(problem).toMatchObject({fix: null});
+        expect(problem?.message.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,117 @@
+import * as yaml from "js-yaml";
+import { getFrontMatterInfo } from "obsidian";
+import { mergeDuplicateProperty, TagListStyle } from "./FrontmatterWriter";
+
+/**
+ * An automatic repair for a common frontmatter mistake.
+ * "duplicate-key" merges a repeated tag property, "tabs" replaces tab indentation with
+ * spaces, and "unterminated-flow" closes a `[a, b` list that is missing its `]`.
+ */
+export interface YamlFix {
+    kind: "duplicate-key" | "tabs" | "unterminated-flow";
+    label: string; // button text describing the change
+    key?: string;  // duplicate-key: the repeated property
+    line?: number; // unterminated-flow: index of the frontmatter line to close
+}
+
+/** Why a note's frontmatter can't be parsed, and where. */
+export interface YamlProblem {
+    message: string;      // the parser's reason, e.g. "duplicated mapping key"
+    line: number | null;  // 1-based line in the note
+    fix: YamlFix | null;
+}
+
+/**
+ * Parses a note's frontmatter strictly (duplicate keys are errors, as in Obsidian's
+ * properties) and describes the first problem, or returns null if it is valid or absent.
+ */
+export function validateFrontmatter(content: string, tagPropertyNames: string[]): YamlProblem | null {
+    const fmInfo = getFrontMatterInfo(content);
+    if (!fmInfo.exists) return null;
+
+    try {
+        yaml.load(fmInfo.frontmatter);
+        return null;
+    } catch (e) {
+        if (!(e instanceof yaml.YAMLException)) throw e;
+        const firstLine = content.slice(0, fmInfo.from).split("\n").length;
+        return {
+            message: e.reason,
+            line: e.mark ? firstLine + e.mark.line : null,
+            fix: findFix(fmInfo.frontmatter, e, tagPropertyNames),
+        };
+    }
+}
+
+/**
+ * Returns `content` with the fix applied to its frontmatter.
+ */
+export function fixFrontmatter(content: string, fix: YamlFix, style: TagListStyle): string {
+    const fmInfo = getFrontMatterInfo(content);
+    if (!fmInfo.exists) return content;
+
+    let frontmatter = fmInfo.frontmatter;
+    switch (fix.kind) {
+        case "duplicate-key":
+            frontmatter = mergeDuplicateProperty(frontmatter, fix.key ?? "", style);
+            break;
+        case "tabs":
+            frontmatter = frontmatter.replace(/^[ \t]+/gm, (indent) => indent.replace(/\t/g, "  "));
+            break;
+        case "unterminated-flow": {
+            const lines = frontmatter.split("\n");
+            const index = fix.line ?? -1;
+            if (index >= 0 && index < lines.length) {
+                const cr = lines[index].endsWith("\r") ? "\r" : "";
+                lines[index] = lines[index].replace(/\s*$/, "]") + cr;
+            }
+            frontmatter = lines.join("\n");
+            break;
+        }
+    }
+
+    return content.slice(0, fmInfo.from) + frontmatter + content.slice(fmInfo.to);
+}
+
+/**
+ * Picks the repair that matches the parse error, if any.
+ */
+function findFix(frontmatter: string, error: yaml.YAMLException, tagPropertyNames: string[]): YamlFix | null {
+    const lines = frontmatter.split("\n");
+
+    if (error.reason === "duplicated mapping key" && error.mark) {
+        const key = /^(["']?)([^"':]+)\1\s*:/.exec(lines[error.mark.line] ?? "")?.[2];
+        if (key && tagPropertyNames.some((name) => name.toLowerCase() === key.toLowerCase())) {
+            return { kind: "duplicate-key", label: `Merge the duplicate ${key} keys`, key };
+        }
+        return null;
+    }
+
+    if (/^ *\t/m.test(frontmatter)) {
+        return { kind: "tabs", label: "Replace tabs with spaces" };
+    }
+
+    const unterminated = lines.findIndex((line, i) => isUnterminatedFlowList(line) && !continuesOnNextLine(lines, i));
+    if (unterminated >= 0) {
+        return { kind: "unterminated-flow", label: "Close the list", line: unterminated };
+    }
+
+    return null;
+}
+
+/**
+ * Whether a `key: [a, b` line opens more brackets than it closes (quoted text ignored).
+ */
+function isUnterminatedFlowList(line: string): boolean {
+    if (!/^\s*[^#:\s][^:]*:\s*\[/.test(line)) return false;
+    const unquoted = line.replace(/"[^"]*"|'[^']*'/g, "");
+    return (unquoted.match(/\[/g) ?? []).length > (unquoted.match(/]/g) ?? []).length;
+}
+
+/**
+ * Whether the list continues on an indented next line, which is valid YAML.
+ */
+function continuesOnNextLine(lines: string[], index: number): boolean {
+    const next = lines.slice(index + 1).find((line) => line.trim().length > 0);
+    return next !== undefined && /^[ \t]/.test(next);
+}
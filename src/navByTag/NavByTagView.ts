@@ -40,6 +40,15 @@ export class NavByTagView extends ItemView {
 
     async onOpen() {
         this.buildView();
+
+        // Re-render when notes change (debounced)
+        let timer: number | null = null;
+        this.registerEvent(
+            this.plugin.tagIndexer.on("changed", () => {
+                window.clearTimeout(timer ?? undefined);
+                timer = window.setTimeout(() => this.refresh(), 150);
+            })
+        );
     }
 
     async onClose() {
@@ -1,5 +1,6 @@
 import {IconName, Menu, TFile, setIcon} from "obsidian";
 import {gatherTagsFromCache} from "../relatedView/TagIndexer";
+import {TagCasing} from "../batch/TagIdentity";
 import {TagNavSortMode} from "../settings/PluginSettings";
 import TagTacticianPlugin from "../../main";
 
@@ -272,12 +273,22 @@ export class TagNavigationRenderer {
         const hierarchy: TagHierarchy = {};
         const allFiles = this.plugin.app.vault.getMarkdownFiles();
 
+        // Tags differing only in case share one node, shown in the vault's most used casing
+        const fileTags = new Map<TFile, Set<string>>();
+        const casing = new TagCasing();
         for (const file of allFiles) {
-            // Get file metadata cache, handle null case
             const fileCache = this.plugin.app.metadataCache.getFileCache(file);
-            // Only process files with metadata cache
             if (fileCache) {
-                const tags = gatherTagsFromCache(fileCache);
+                const tags = gatherTagsFromCache(fileCache, this.plugin.settings);
+                tags.forEach((tag) => casing.add(tag));
+                fileTags.set(file, tags);
+            }
+        }
+
+        for (const file of allFiles) {
+            // Only process files with metadata cache
+            const tags = fileTags.get(file);
+            if (tags) {
                 if (tags.size === 0) {
                     if (!hierarchy["untagged"]) {
                         hierarchy["untagged"] = {files: new Set(), children: {}};
@@ -285,7 +296,7 @@ export class TagNavigationRenderer {
                     hierarchy["untagged"].files.add(file);
                 } else {
                     for (const tag of tags) {
-                        this.addToHierarchy(hierarchy, tag.split("/"), file);
+                        this.addToHierarchy(hierarchy, casing.display(tag).split("/"), file);
                     }
                 }
             } else {
@@ -542,6 +553,21 @@ export class TagNavigationRenderer {
             // Hover tip
             tagName.title = path.length !== 0 ? `${path.join("/")}/${key}` : key;
 
+            // Right-click => rename this tag across the vault
+            if (currentTagPath !== "untagged") {
+                groupHeader.addEventListener('contextmenu', (evt: MouseEvent) => {
+                    evt.preventDefault();
+                    evt.stopPropagation();
+                    const menu = new Menu();
+                    menu.addItem((item) => {
+                        item.setTitle("Rename tag...")
+                            .setIcon("pencil")
+                            .onClick(() => this.plugin.openRenameTagModal(currentTagPath));
+                    });
+                    menu.showAtMouseEvent(evt);
+                });
+            }
+
             // Count
             const totalCount = this.getTotalFileCountForNode({files, children});
             if (totalCount > 0) {
@@ -0,0 +1,80 @@
+import { ContentIndex } from "./ContentIndex";
+
+const NOTES: Record<string, string> = {
+    "rockets.md": "Rocket engines burn fuel. The engines were tested twice.",
+    "fuel.md": "Fuel storage and fuel costs for the engines.",
+    "garden.md": "Gardening tools and seeds for the garden.",
+    "seeds.md": "Seeds, soil and a garden plan.",
+    "empty.md": "The and of, 2024 https://example.com",
+};
+
+function without(path: string): Record<string, string> {
+    return Object.fromEntries(Object.entries(NOTES).filter(([other]) => other !== path));
+}
+
+function createIndex(notes: Record<string, string> = NOTES) {
+    const index = new ContentIndex();
+    for (const [path, body] of Object.entries(notes)) {
+        index.set(path, body);
+    }
+    return index;
+}
+
+/** Every note's similarities, checked against the pairwise `similarity()`. */
+function expectSimilarityMatchesSimilarities(index: ContentIndex, paths: string[]) {
+    for (const path of paths) {
+        const similarities = index.similarities(path);
+        for (const other of paths) {
+            expect({path, other, score: similarities.get(other) ?? 0}).toEqual({path, other, score: index.similarity(path, other)});
+        }
+    }
+}
+
+describe("ContentIndex", () => {
+    it("scores notes sharing words between 0 and 1 and leaves out the others", () => {
+        const index = createIndex();
+        const similarities = index.similarities("rockets.md");
+        expect([...similarities.keys()]).toEqual(["fuel.md"]);
+        expect(similarities.get("fuel.md")).toBeGreaterThan(0);
+        expect(similarities.get("fuel.md")).toBeLessThan(1);
+        expect(index.similarities("empty.md").size).toBe(0);
+        expectSimilarityMatchesSimilarities(index, Object.keys(NOTES));
+    });
+
+    it("reports whether a note's words changed", () => {
+        const index = createIndex();
+        expect(index.set("fuel.md", "Fuel storage, and fuel costs for the engines!")).toBe(false);
+        expect(index.set("fuel.md", "Fuel storage.")).toBe(true);
+    });
+
+    it("scores a renamed note like a freshly indexed one", () => {
+        const index = createIndex();
+        index.rename("fuel.md", "Archive/fuel.md");
+        const renamed = {...without("fuel.md"), "Archive/fuel.md": NOTES["fuel.md"]};
+        const fresh = createIndex(renamed);
+
+        expect(index.has("fuel.md")).toBe(false);
+        expect(index.similarities("rockets.md")).toEqual(fresh.similarities("rockets.md"));
+        expect(index.similarities("Archive/fuel.md")).toEqual(fresh.similarities("Archive/fuel.md"));
+        expectSimilarityMatchesSimilarities(index, Object.keys(renamed));
+    });
+
+    it("forgets removed notes", () => {
+        const index = createIndex();
+        index.remove("fuel.md");
+
+        expect(index.has("fuel.md")).toBe(false);
+        expect(index.similarities("rockets.md").size).toBe(0);
+        expect(index.similarity("rockets.md", "fuel.md")).toBe(0);
+        expect(index.similarities("garden.md")).toEqual(createIndex(without("fuel.md")).similarities("garden.md"));
+    });
+
+    it("ignores words found in too many notes", () => {
+        // 20 notes sharing a word still compare by it; from 21 (and 5% of the notes) it is too common
+        const notes = (count: number) => Object.fromEntries(
+            Array.from({length: count}, (_, i) => [`${i}.md`, `Shared words, note${i}`]));
+        expect(createIndex(notes(20)).similarities("0.md").size).toBe(19);
+        expect(createIndex(notes(21)).similarities("0.md").size).toBe(0);
+        expect(createIndex(notes(21)).similarity("0.md", "1.md")).toBe(0);
+    });
+});
@@ -0,0 +1,251 @@
+import {CachedMetadata} from "obsidian";
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+/** Only a note's most frequent words are indexed, which bounds the postings' memory */
+const MAX_TERMS_PER_NOTE = 50;
+/** Words in more than this share of the notes (and more than MIN_COMMON_TERM_NOTES) are ignored when comparing */
+const COMMON_TERM_SHARE = 0.05;
+const MIN_COMMON_TERM_NOTES = 20;
+
+/** Words too common to say anything about what a note is about. */
+const STOP_WORDS = new Set([
+    "a", "about", "after", "all", "also", "am", "an", "and", "any", "are", "as", "at", "be", "because",
+    "been", "before", "being", "but", "by", "can", "could", "did", "do", "does", "doing", "for", "from",
+    "had", "has", "have", "he", "her", "here", "him", "his", "how", "i", "if", "in", "into", "is", "it",
+    "its", "just", "me", "more", "most", "my", "no", "not", "of", "on", "one", "only", "or", "other",
+    "our", "out", "over", "so", "some", "such", "than", "that", "the", "their", "them", "then", "there",
+    "these", "they", "this", "those", "to", "too", "up", "us", "very", "was", "we", "were", "what",
+    "when", "where", "which", "while", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+/** A note's body as a bag of words. */
+interface ContentDocument {
+    terms: string[];       // the most frequent distinct words, up to MAX_TERMS_PER_NOTE
+    frequencies: number[]; // how often each of `terms` occurs
+    length: number;        // number of words, stop words excluded (all of them, not only `terms`)
+    norm: number;          // length of the BM25 vector, valid for `normVersion`
+    normVersion: number;
+}
+
+/**
+ * The words of every note's body, to compare notes by content without any outside service.
+ *
+ * Each note is a vector of BM25 term weights, `idf(t) * tf * (K1 + 1) / (tf + K1 * (1 - B + B * len / avgLen))`,
+ * and two notes are as similar as the cosine of their vectors (0–1). The weights depend on the
+ * whole vault (document frequencies and the average length), so only the term frequencies are
+ * stored; the vector lengths are cached until the next change.
+ *
+ * To keep this cheap on large vaults the vectors are trimmed: each note keeps only its
+ * MAX_TERMS_PER_NOTE most frequent words, and words found in a large share of the notes are
+ * left out of both the dot products and the vector lengths (their postings would cover most of
+ * the vault while their idf is low).
+ */
+export class ContentIndex {
+    private documents: Map<string, ContentDocument> = new Map();
+    private termPostings: Map<string, Map<string, number>> = new Map(); // term => note path => frequency
+    private totalLength = 0;
+    private version = 0; // bumped whenever the vault-wide statistics change
+
+    public has(notePath: string): boolean {
+        return this.documents.has(notePath);
+    }
+
+    public clear() {
+        this.documents.clear();
+        this.termPostings.clear();
+        this.totalLength = 0;
+        this.version++;
+    }
+
+    /**
+     * (Re-)indexes a note's body. Returns false if its words didn't change.
+     */
+    public set(notePath: string, body: string): boolean {
+        const allTermFrequencies = countTerms(body);
+        let length = 0;
+        for (const frequency of allTermFrequencies.values()) length += frequency;
+        const termFrequencies = mostFrequentTerms(allTermFrequencies, MAX_TERMS_PER_NOTE);
+        const previous = this.documents.get(notePath);
+        if (previous && previous.length === length && sameTermFrequencies(previous, termFrequencies)) return false;
+
+        this.remove(notePath);
+        const document: ContentDocument = {terms: [], frequencies: [], length, norm: 0, normVersion: -1};
+        for (const [term, frequency] of termFrequencies) {
+            document.terms.push(term);
+            document.frequencies.push(frequency);
+            let postings = this.termPostings.get(term);
+            if (!postings) {
+                postings = new Map();
+                this.termPostings.set(term, postings);
+            }
+            postings.set(notePath, frequency);
+        }
+        this.documents.set(notePath, document);
+        this.totalLength += document.length;
+        this.version++;
+        return true;
+    }
+
+    public remove(notePath: string) {
+        const document = this.documents.get(notePath);
+        if (!document) return;
+
+        for (const term of document.terms) {
+            const postings = this.termPostings.get(term);
+            postings?.delete(notePath);
+            if (postings?.size === 0) this.termPostings.delete(term);
+        }
+        this.documents.delete(notePath);
+        this.totalLength -= document.length;
+        this.version++;
+    }
+
+    /**
+     * Moves a note's words to its new path (a rename doesn't change any weights).
+     */
+    public rename(oldPath: string, newPath: string) {
+        const document = this.documents.get(oldPath);
+        if (!document) return;
+
+        this.documents.delete(oldPath);
+        this.documents.set(newPath, document);
+        document.terms.forEach((term, i) => {
+            const postings = this.termPostings.get(term);
+            postings?.delete(oldPath);
+            postings?.set(newPath, document.frequencies[i]);
+        });
+    }
+
+    /**
+     * The cosine similarity of the note with every other note sharing at least one word that
+     * isn't too common, by path. Found through the term postings, so notes sharing nothing are
+     * never looked at.
+     */
+    public similarities(notePath: string): Map<string, number> {
+        const similarities = new Map<string, number>();
+        const document = this.documents.get(notePath);
+        if (!document || this.norm(document) === 0) return similarities;
+
+        const averageLength = this.totalLength / this.documents.size;
+        document.terms.forEach((term, i) => {
+            const postings = this.termPostings.get(term);
+            if (!postings || this.isTooCommon(postings.size)) return;
+            const idf = inverseDocumentFrequency(this.documents.size, postings.size);
+            const weight = idf * saturate(document.frequencies[i], document.length, averageLength);
+            for (const [otherPath, otherFrequency] of postings) {
+                const other = this.documents.get(otherPath);
+                if (!other || otherPath === notePath) continue;
+                const otherWeight = idf * saturate(otherFrequency, other.length, averageLength);
+                similarities.set(otherPath, (similarities.get(otherPath) ?? 0) + weight * otherWeight);
+            }
+        });
+
+        const norm = this.norm(document);
+        for (const [otherPath, dotProduct] of similarities) {
+            const other = this.documents.get(otherPath);
+            similarities.set(otherPath, other ? dotProduct / (norm * this.norm(other)) : 0);
+        }
+        return similarities;
+    }
+
+    /**
+     * The cosine similarity of two notes, as in `similarities()`. 0 if either isn't indexed.
+     */
+    public similarity(notePath: string, otherPath: string): number {
+        const document = this.documents.get(notePath);
+        const other = this.documents.get(otherPath);
+        if (!document || !other || notePath === otherPath) return 0;
+
+        // Summed in the same order as similarities(), so both give the same number
+        const averageLength = this.totalLength / this.documents.size;
+        let dotProduct = 0;
+        let shared = false;
+        document.terms.forEach((term, i) => {
+            const postings = this.termPostings.get(term);
+            const otherFrequency = postings?.get(otherPath);
+            if (!postings || otherFrequency === undefined || this.isTooCommon(postings.size)) return;
+            const idf = inverseDocumentFrequency(this.documents.size, postings.size);
+            const weight = idf * saturate(document.frequencies[i], document.length, averageLength);
+            const otherWeight = idf * saturate(otherFrequency, other.length, averageLength);
+            dotProduct += weight * otherWeight;
+            shared = true;
+        });
+        return shared ? dotProduct / (this.norm(document) * this.norm(other)) : 0;
+    }
+
+    private norm(document: ContentDocument): number {
+        if (document.normVersion !== this.version) {
+            const averageLength = this.totalLength / this.documents.size;
+            let sum = 0;
+            document.terms.forEach((term, i) => {
+                const documentFrequency = this.termPostings.get(term)?.size ?? 0;
+                if (this.isTooCommon(documentFrequency)) return;
+                const weight = inverseDocumentFrequency(this.documents.size, documentFrequency)
+                    * saturate(document.frequencies[i], document.length, averageLength);
+                sum += weight * weight;
+            });
+            document.norm = Math.sqrt(sum);
+            document.normVersion = this.version;
+        }
+        return document.norm;
+    }
+
+    private isTooCommon(documentFrequency: number): boolean {
+        return documentFrequency > Math.max(MIN_COMMON_TERM_NOTES, this.documents.size * COMMON_TERM_SHARE);
+    }
+}
+
+/**
+ * BM25 inverse document frequency, as for rarity-weighted tags
+ */
+function inverseDocumentFrequency(noteCount: number, documentFrequency: number): number {
+    return Math.log(1 + (noteCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * BM25 term frequency part: saturating in the frequency, lower in longer notes
+ */
+function saturate(frequency: number, length: number, averageLength: number): number {
+    return frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength));
+}
+
+/**
+ * The text of a note without its frontmatter (tags and properties are scored separately).
+ */
+export function noteBody(text: string, cache: CachedMetadata | null): string {
+    const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+    return frontmatterEnd !== undefined ? text.slice(frontmatterEnd) : text;
+}
+
+/**
+ * Lowercased words split at whitespace and punctuation, without URLs, numbers, single letters
+ * and stop words, counted.
+ */
+function countTerms(body: string): Map<string, number> {
+    const termFrequencies = new Map<string, number>();
+    const words = body
+        .replace(/\bhttps?:\/\/\S+/g, " ")
+        .toLowerCase()
+        .split(/[\s!-/:-@[-`{-~\u00a0-\u00bf\u2000-\u206f\u3000-\u303f]+/);
+    for (const word of words) {
+        if (word.length < 2 || /^\d+$/.test(word) || STOP_WORDS.has(word)) continue;
+        termFrequencies.set(word, (termFrequencies.get(word) ?? 0) + 1);
+    }
+    return termFrequencies;
+}
+
+/**
+ * The `count` most frequent terms, ties in order of appearance.
+ */
+function mostFrequentTerms(termFrequencies: Map<string, number>, count: number): Map<string, number> {
+    if (termFrequencies.size <= count) return termFrequencies;
+    return new Map([...termFrequencies].sort((a, b) => b[1] - a[1]).slice(0, count));
+}
+
+function sameTermFrequencies(document: ContentDocument, termFrequencies: Map<string, number>): boolean {
+    return document.terms.length === termFrequencies.size
+        && document.terms.every((term, i) => termFrequencies.get(term) === document.frequencies[i]);
+}
@@ -1,6 +1,6 @@
 import {ItemView, WorkspaceLeaf, TFile, Menu, setIcon, IconName} from "obsidian";
 import TagTacticianPlugin from "../../main";
-import {gatherTagsFromCache, gatherAllPrefixSegmentsForNote, levenshteinSimilarity} from "./TagIndexer";
+import {RelatedNoteScore} from "./TagIndexer";
 
 /**
  * Unique ID for the related notes view (shared with main.ts).
@@ -43,6 +43,17 @@ export class RelatedNotesView extends ItemView {
 
     async onOpen() {
         this.refresh();
+
+        // Re-score when tags, links or (if weighted) words change anywhere, or notes are renamed or deleted (debounced)
+        let timer: number | null = null;
+        this.registerEvent(
+            this.plugin.tagIndexer.on("changed", (change) => {
+                const contentChanged = change.contentChanged && this.plugin.settings.weightContentSimilarity !== 0;
+                if (!change.tagsChanged && !change.linksChanged && !contentChanged) return;
+                window.clearTimeout(timer ?? undefined);
+                timer = window.setTimeout(() => this.refreshList(), 150);
+            })
+        );
     }
 
     async onClose() {
@@ -209,80 +220,10 @@ export class RelatedNotesView extends ItemView {
                 const scoreEl = titleRow.createEl("span", { cls: "related-note-score" });
                 scoreEl.setText(`${score.toPrecision(2)}`);
                 
-                // Get detailed score calculation
-                if (noteFile instanceof TFile) {
-                    const currentFile = this.app.workspace.getActiveFile();
-                    if (currentFile) {
-                        const currFullTags = gatherTagsFromCache(this.app.metadataCache.getFileCache(currentFile));
-                        const currSegments = gatherAllPrefixSegmentsForNote(currFullTags);
-                        
-                        const candTags = gatherTagsFromCache(this.app.metadataCache.getFileCache(noteFile));
-                        const candSegments = gatherAllPrefixSegmentsForNote(candTags);
-                        
-                        // Calculate tag overlap
-                        let prefixOverlapScore = 0;
-                        const overlappingTags: string[] = [];
-                        for (const seg of candSegments) {
-                            if (currSegments.has(seg)) {
-                                prefixOverlapScore += 1;
-                                overlappingTags.push(seg);
-                            }
-                        }
-                        
-                        // Get titles for title similarity calculation
-                        const currentTitle = currentFile.basename.toLowerCase();
-                        const candidateTitle = noteFile.basename.toLowerCase();
-                        const titleSimScore = levenshteinSimilarity(currentTitle, candidateTitle);
-                        
-                        // Path similarity
-                        let pathSimScore = 0;
-                        if (noteFile.parent && currentFile.parent && noteFile.parent.path !== "/" && currentFile.parent.path !== "/") {
-                            pathSimScore = levenshteinSimilarity(currentFile.path, notePath);
-                        }
-                        
-                        // Links to each other
-                        let linkScore = 0;
-                        const candCache = this.app.metadataCache.getFileCache(noteFile);
-                        const currCache = this.app.metadataCache.getFileCache(currentFile);
-                        
-                        if (candCache && currCache) {
-                            if (candCache.links?.map(l => l.link).includes(currentFile.basename)) {
-                                linkScore++;
-                            }
-                            if (currCache.links?.map(l => l.link).includes(noteFile.basename)) {
-                                linkScore++;
-                            }
-                        }
-                        
-                        // Calculate weighted scores
-                        const tagWeight = this.plugin.settings.weightTagSimilarity;
-                        const titleWeight = this.plugin.settings.weightTitleSimilarity;
-                        const pathWeight = this.plugin.settings.weightPathSimilarity;
-                        const linkWeight = this.plugin.settings.weightLinkInterconnections;
-                        
-                        const weightedTagScore = tagWeight * prefixOverlapScore;
-                        const weightedTitleScore = titleWeight * titleSimScore;
-                        const weightedPathScore = pathWeight * pathSimScore;
-                        const weightedLinkScore = linkWeight * linkScore;
-                        
-                        // Create tooltip text
-                        let tooltipText = "Score Breakdown:\n";
-                        tooltipText += `• Tag similarity: ${weightedTagScore.toFixed(2)} (${prefixOverlapScore} tag overlaps × ${tagWeight} weight)\n`;
-                        if (overlappingTags.length > 0) {
-                            tooltipText += `  Overlapping tags: ${overlappingTags.join(", ")}\n`;
-                        }
-                        tooltipText += `• Title similarity: ${weightedTitleScore.toFixed(2)} (${titleSimScore.toFixed(2)} similarity × ${titleWeight} weight)\n`;
-                        tooltipText += `• Path similarity: ${weightedPathScore.toFixed(2)} (${pathSimScore.toFixed(2)} similarity × ${pathWeight} weight)\n`;
-                        tooltipText += `• Link interconnections: ${weightedLinkScore.toFixed(2)} (${linkScore} links × ${linkWeight} weight)\n`;
-                        tooltipText += `\nTotal score: ${score.toPrecision(3)}`;
-                        
-                        scoreEl.title = tooltipText;
-                    } else {
-                        scoreEl.title = "Score: " + score;
-                    }
-                } else {
-                    scoreEl.title = "Score: " + score;
-                }
+                // Per-factor breakdown in the tooltip
+                const currentFile = this.app.workspace.getActiveFile();
+                const breakdown = currentFile ? this.plugin.tagIndexer.explainScore(currentFile.path, notePath) : null;
+                scoreEl.title = breakdown ? this.describeScore(breakdown, score) : "Score: " + score;
             }
 
             // tooltip
@@ -332,7 +273,7 @@ export class RelatedNotesView extends ItemView {
 
             // Optionally show tags
             if (this.showTags) {
-                const noteTags = gatherTagsFromCache(this.app.metadataCache.getFileCache(noteFile))
+                const noteTags = this.plugin.tagIndexer.getNoteTags(notePath);
                 if (noteTags.size > 0) {
                     const tagLine = itemContent.createEl("div", { cls: "related-note-tags" });
 
@@ -350,6 +291,32 @@ export class RelatedNotesView extends ItemView {
         }
     }
 
+    /**
+     * The score tooltip: each factor, weighted, with the shared tags' contributions.
+     */
+    private describeScore(breakdown: RelatedNoteScore, score: number): string {
+        const {settings} = this.plugin;
+        const tagWeight = settings.weightTagSimilarity;
+        const titleWeight = settings.weightTitleSimilarity;
+        const pathWeight = settings.weightPathSimilarity;
+        const linkWeight = settings.weightLinkInterconnections;
+        const contentWeight = settings.weightContentSimilarity;
+        const tagOverlap = settings.tagOverlapWeighting === "rarity" ? "rarity-weighted tag overlap" : "tag overlaps";
+        const tagUnit = settings.tagSimilarityMetric === "count" ? tagOverlap : `${settings.tagSimilarityMetric} of ${tagOverlap}`;
+
+        let tooltipText = "Score Breakdown:\n";
+        tooltipText += `• Tag similarity: ${(tagWeight * breakdown.tagScore).toFixed(2)} (${+breakdown.tagScore.toFixed(2)} ${tagUnit} × ${tagWeight} weight)\n`;
+        for (const {tag, contribution} of breakdown.sharedTags) {
+            tooltipText += `    ${tag}: +${(tagWeight * contribution).toFixed(2)}\n`;
+        }
+        tooltipText += `• Title similarity: ${(titleWeight * breakdown.titleScore).toFixed(2)} (${breakdown.titleScore.toFixed(2)} similarity × ${titleWeight} weight)\n`;
+        tooltipText += `• Path similarity: ${(pathWeight * breakdown.pathScore).toFixed(2)} (${breakdown.pathScore.toFixed(2)} similarity × ${pathWeight} weight)\n`;
+        tooltipText += `• Link interconnections: ${(linkWeight * breakdown.linkScore).toFixed(2)} (${breakdown.linkScore} links × ${linkWeight} weight)\n`;
+        tooltipText += `• Content similarity: ${(contentWeight * breakdown.contentScore).toFixed(2)} (${breakdown.contentScore.toFixed(2)} similarity × ${contentWeight} weight)\n`;
+        tooltipText += `\nTotal score: ${score.toPrecision(3)}`;
+        return tooltipText;
+    }
+
     /**
      * Returns a filtered subset of the raw results, based on `this.filterQuery`,
      * matching either the note title or any of its tags.
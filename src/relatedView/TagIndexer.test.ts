@@ -0,0 +1,182 @@
+import { CachedMetadata, TFile } from "obsidian";
+import TagTacticianPlugin from "../../main";
+import { DEFAULT_SETTINGS, TagTacticianSettings } from "../settings/PluginSettings";
+import { gatherTagsFromCache, TagIndexer } from "./TagIndexer";
+
+type Callback = (...data: unknown[]) => unknown;
+
+/** A small vault with shared tags and links, near-identical names in other folders and notes at the root. */
+const FIXTURE: Record<string, {tags?: string[]; frontmatterTags?: string[]; links?: string[]; body?: string}> = {
+    "Projects/Apollo/Plan.md": {tags: ["project/apollo", "status/active"], links: ["Budget"], body: "Launch window, rocket engines and the launch budget."},
+    "Projects/Apollo/Plan review.md": {frontmatterTags: ["Project/Apollo"], body: "Review of the launch plan: engines tested, budget approved."},
+    "Projects/Apollo/Budget.md": {tags: ["finance"], links: ["Plan"], body: "Budget for engines, fuel and fuel storage."},
+    "Projects/Gemini/Plan.md": {tags: ["project/gemini", "status/active"], body: "Docking tests and a spacewalk. Docking again."},
+    "Projects/Gemini/Budgets.md": {body: "Quarterly budget, fuel costs."},
+    "Projects/Gemini/Kickoff meeting.md": {tags: ["meeting"], links: ["Plan"], body: "Meeting notes: docking schedule and crew."},
+    "Archive/Projects/Apollo/Plan.md": {body: "Old launch window notes."},
+    "Archive/Old plan.md": {tags: ["status/done"]},
+    "Journal/2024/2024-03-01.md": {tags: ["journal"], links: ["Kickoff meeting"], body: "Went to the kickoff meeting, crew met."},
+    "Journal/2024/2024-03-02.md": {tags: ["journal", "meeting"], body: "Gardening, then a meeting about the garden."},
+    "Journal/2024/2024-13-02.md": {},
+    "Journal/2023/2023-03-01.md": {},
+    "Plan.md": {tags: ["status/active"]},
+    "Plans.md": {},
+    "Budget.md": {links: ["Plan"]},
+    "Inbox.md": {tags: ["inbox"], body: "Ideas for the garden: gardening tools."},
+};
+
+function createVault() {
+    const files = new Map<string, TFile>();
+    const caches = new Map<TFile, CachedMetadata>();
+    const bodies = new Map<TFile, string>();
+    const callbacks = new Map<string, Callback>();
+
+    const place = (file: TFile, path: string) => {
+        const slash = path.lastIndexOf("/");
+        file.path = path;
+        file.basename = path.slice(slash + 1).replace(/\.md$/, "");
+        Object.assign(file, {parent: {path: slash === -1 ? "/" : path.slice(0, slash)}});
+        files.set(path, file);
+    };
+    for (const [path, note] of Object.entries(FIXTURE)) {
+        const file = new TFile();
+        place(file, path);
+        caches.set(file, {
+            tags: note.tags?.map((tag) => ({tag: "#" + tag, position: {start: {line: 0, col: 0, offset: 0}, end: {line: 0, col: 0, offset: 0}}})),
+            links: note.links?.map((link) => ({link, original: `[[${link}]]`, position: {start: {line: 0, col: 0, offset: 0}, end: {line: 0, col: 0, offset: 0}}})),
+            frontmatter: note.frontmatterTags ? {tags: note.frontmatterTags} : undefined,
+        });
+        bodies.set(file, note.body ?? "");
+    }
+
+    const settings: TagTacticianSettings = {...DEFAULT_SETTINGS};
+    const on = (prefix: string) => (name: string, callback: Callback) => {
+        callbacks.set(prefix + name, callback);
+        return {};
+    };
+    const app = {
+        vault: {
+            getMarkdownFiles: () => [...files.values()],
+            getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+            cachedRead: (file: TFile) => Promise.resolve(bodies.get(file)!),
+            on: on("vault:"),
+        },
+        metadataCache: {getFileCache: (file: TFile) => caches.get(file) ?? null, on: on("metadata:")},
+    };
+    const plugin = {app, settings, registerEvent: () => undefined} as unknown as TagTacticianPlugin;
+
+    const rename = (oldPath: string, newPath: string) => {
+        const file = files.get(oldPath)!;
+        files.delete(oldPath);
+        place(file, newPath);
+        callbacks.get("vault:rename")?.(file, oldPath);
+    };
+    return {files, settings, plugin, rename};
+}
+
+/** Every other note scored without the index, as the list should show them. */
+function bruteForce(indexer: TagIndexer, files: Map<string, TFile>, settings: TagTacticianSettings, currentPath: string) {
+    const results: Array<{notePath: string; score: number}> = [];
+    for (const notePath of files.keys()) {
+        if (notePath === currentPath) continue;
+        const score = indexer.explainScore(currentPath, notePath)!.total;
+        if (score > 0 && score >= settings.minimumRelatedNotesScore) results.push({notePath, score});
+    }
+    return results.sort((a, b) => b.score - a.score || a.notePath.localeCompare(b.notePath));
+}
+
+function expectSameAsBruteForce(indexer: TagIndexer, files: Map<string, TFile>, settings: TagTacticianSettings) {
+    for (const currentPath of files.keys()) {
+        expect({currentPath, related: indexer.computeRelatedNotes(currentPath)})
+            .toEqual({currentPath, related: bruteForce(indexer, files, settings, currentPath)});
+    }
+}
+
+describe("TagIndexer.computeRelatedNotes", () => {
+    it.each<[string, Partial<TagTacticianSettings>]>([
+        ["the default settings", {}],
+        ["title and path weights above the tag weight", {weightTagSimilarity: 0.5, weightTitleSimilarity: 2, weightPathSimilarity: 1.5, weightLinkInterconnections: 0, minimumRelatedNotesScore: 1.5}],
+        ["path similarity alone", {weightTagSimilarity: 0, weightTitleSimilarity: 0, weightLinkInterconnections: 0, minimumRelatedNotesScore: 0.6}],
+        ["normalized rarity-weighted tags", {tagOverlapWeighting: "rarity", tagSimilarityMetric: "jaccard", tagDepthDecay: 0.5, minimumRelatedNotesScore: 0.3}],
+        ["a low minimum score", {minimumRelatedNotesScore: 0.2}],
+        ["title and path below the minimum score", {weightTitleSimilarity: 0.4, weightPathSimilarity: 0.4}],
+    ])("lists the same notes with the same scores as comparing every note, with %s", (_, overrides) => {
+        const {files, settings, plugin} = createVault();
+        Object.assign(settings, overrides);
+        const indexer = new TagIndexer(plugin);
+        indexer.buildIndex();
+        expectSameAsBruteForce(indexer, files, settings);
+    });
+
+    it("keeps notes scoring exactly the minimum score and drops those below", () => {
+        const {files, settings, plugin} = createVault();
+        const indexer = new TagIndexer(plugin);
+        indexer.buildIndex();
+        const related = indexer.computeRelatedNotes("Projects/Apollo/Plan.md");
+        const cutoff = related[Math.floor(related.length / 2)];
+
+        settings.minimumRelatedNotesScore = cutoff.score;
+        const kept = indexer.computeRelatedNotes("Projects/Apollo/Plan.md");
+        expect(kept).toContainEqual(cutoff);
+        expect(kept.every((result) => result.score >= cutoff.score)).toBe(true);
+        expectSameAsBruteForce(indexer, files, settings);
+    });
+
+    it("doesn't compare paths of notes at the vault root", () => {
+        const {plugin} = createVault();
+        const indexer = new TagIndexer(plugin);
+        indexer.buildIndex();
+        expect(indexer.explainScore("Plan.md", "Projects/Apollo/Plan.md")?.pathScore).toBe(0);
+        expect(indexer.explainScore("Projects/Apollo/Plan.md", "Plan.md")?.pathScore).toBe(0);
+        expect(indexer.explainScore("Projects/Gemini/Plan.md", "Projects/Apollo/Plan.md")?.pathScore).toBeGreaterThan(0);
+    });
+
+    it("scores renamed notes under their new path, like a fresh index", () => {
+        const {files, settings, plugin, rename} = createVault();
+        const indexer = new TagIndexer(plugin);
+        indexer.registerEvents();
+        indexer.buildIndex();
+
+        rename("Projects/Apollo/Budget.md", "Budgets.md");
+        rename("Plans.md", "Projects/Gemini/Plans.md");
+        rename("Journal/2024/2024-03-01.md", "Journal/2023/2024-03-01.md");
+
+        expectSameAsBruteForce(indexer, files, settings);
+        const rebuilt = new TagIndexer(plugin);
+        rebuilt.buildIndex();
+        for (const currentPath of files.keys()) {
+            expect(indexer.computeRelatedNotes(currentPath)).toEqual(rebuilt.computeRelatedNotes(currentPath));
+        }
+    });
+
+    it("finds the same notes by content as comparing every note, also after a rename", async () => {
+        const {files, settings, plugin, rename} = createVault();
+        Object.assign(settings, {weightContentSimilarity: 1, minimumRelatedNotesScore: 0.2});
+        const indexer = new TagIndexer(plugin);
+        const contentIndexed = new Promise<void>((resolve) => indexer.on("changed", (change) => {
+            if (change.notePath === null && change.contentChanged) resolve();
+        }));
+        indexer.registerEvents();
+        indexer.buildIndex();
+        await contentIndexed;
+
+        // Shares no tag, link, title or folder, only words
+        expect(indexer.explainScore("Journal/2024/2024-03-02.md", "Inbox.md")).toMatchObject({tagScore: 0, linkScore: 0, pathScore: 0});
+        expect(indexer.computeRelatedNotes("Journal/2024/2024-03-02.md").map((result) => result.notePath)).toContain("Inbox.md");
+        expectSameAsBruteForce(indexer, files, settings);
+
+        rename("Projects/Apollo/Budget.md", "Budgets.md");
+        expectSameAsBruteForce(indexer, files, settings);
+    });
+});
+
+describe("gatherTagsFromCache", () => {
+    it("reads inline tags and every tag property, numbers included", () => {
+        const cache: CachedMetadata = {
+            tags: [{tag: "#ai", position: {start: {line: 0, col: 0, offset: 0}, end: {line: 0, col: 0, offset: 0}}}],
+            frontmatter: {Topics: [2024, "#AI", "ml"], tag: "draft", status: "done"},
+        };
+        const settings = {...DEFAULT_SETTINGS, tagPropertyNames: ["tags", "topics"], tagWriteProperty: "tag"};
+        expect([...gatherTagsFromCache(cache, settings)]).toEqual(["ai", "2024", "ml", "draft"]);
+    });
+});
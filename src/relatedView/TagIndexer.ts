@@ -1,147 +1,515 @@
-import {CachedMetadata, TFile} from "obsidian";
+import {CachedMetadata, EventRef, Events, TFile} from "obsidian";
 import TagTacticianPlugin from "../../main";
+import { tagKey, uniqueTags } from "../batch/TagIdentity";
+import { collectFrontmatterTags, getTagPropertyNames, TagPropertySettings } from "../batch/TagReader";
+import { ContentIndex, noteBody } from "./ContentIndex";
+
+/** What the index keeps per note to score it as a candidate. */
+interface IndexedNote {
+    basename: string;
+    folder: string;                // parent folder path, "" at the vault root
+    segments: Map<string, string>; // tag prefix segments, see gatherAllPrefixSegmentsForNote()
+    links: Set<string>;            // link targets as written, e.g. "Other note"
+}
+
+/** The active note, as compared against every candidate. */
+interface CurrentNote {
+    file: TFile;
+    title: string;                 // lowercased basename
+    folder: string;                // parent folder path, "" at the vault root
+    segments: Map<string, string>; // tag prefix segments, see gatherAllPrefixSegmentsForNote()
+    links: Set<string>;            // link targets as written
+}
+
+/**
+ * The unweighted factors of a related note's score, and the weighted total.
+ */
+export interface RelatedNoteScore {
+    tagScore: number;   // shared prefix segments, each counted as 1 or by rarity
+    sharedTags: Array<{ tag: string; contribution: number }>; // in the active note's spelling
+    titleScore: number; // 0–1
+    pathScore: number;  // 0–1
+    linkScore: number;  // 0–2
+    contentScore: number; // 0–1, cosine of the bodies' term vectors
+    total: number;
+}
+
+/**
+ * What the indexer's "changed" event reports.
+ */
+export interface TagIndexChange {
+    notePath: string | null; // the note that changed, null after a full rebuild
+    oldPath?: string;        // the note's previous path, if it was renamed
+    tagsChanged: boolean;    // its tags changed, or it was added, renamed or deleted
+    linksChanged: boolean;   // likewise for its links
+    contentChanged: boolean; // likewise for its words, if the content index is kept
+}
 
 /**
- * TagIndexer: Responsible for scanning notes for tags/titles,
- * but no longer relies on a big index for computing related notes.
+ * TagIndexer: Responsible for scanning notes for tags/titles, and for the inverted
+ * index that finds the candidates of `computeRelatedNotes`. Both are kept in sync with
+ * the vault; views listen to the "changed" event to update themselves.
  */
-export class TagIndexer {
+export class TagIndexer extends Events {
     private plugin: TagTacticianPlugin;
     private noteTagsMap: Map<string, Set<string>> = new Map();
 
+    // The inverted index, kept up to date by the vault and metadata cache events
+    private notes: Map<string, IndexedNote> = new Map();
+    private segmentPostings: Map<string, Set<string>> = new Map();  // tagKey(prefix) => note paths
+    private linkPostings: Map<string, Set<string>> = new Map();     // link target => paths of the notes linking to it
+    private basenamePostings: Map<string, Set<string>> = new Map(); // basename => note paths
+    private folderPostings: Map<string, Set<string>> = new Map();   // parent folder path ("" at the root) => note paths
+    private indexBuilt = false;
+
+    // The words of the note bodies, only read once content similarity is weighted
+    private content: ContentIndex = new ContentIndex();
+    private contentIndexState: "none" | "building" | "built" = "none";
+    private contentIndexBuild = 0; // the running build, bumped when the content index is dropped to stop it
+
     constructor(plugin: TagTacticianPlugin) {
+        super();
         this.plugin = plugin;
     }
 
     /**
-     * Build a simple in-memory map for titles & tags of each note.
-     * (Optional, if you want to skip repeated metadata lookups.)
+     * Fired after a note was (re-)indexed, renamed or deleted, and after a full rebuild.
      */
-    public async buildIndex(): Promise<void> {
-        const allFiles = this.plugin.app.vault.getMarkdownFiles();
-        this.noteTagsMap.clear();
+    on(name: "changed", callback: (change: TagIndexChange) => unknown, ctx?: unknown): EventRef {
+        return super.on(name, callback, ctx);
+    }
 
-        for (const file of allFiles) {
-            await this.indexSingleFile(file);
+    /**
+     * Build the in-memory map for titles & tags of each note,
+     * plus the inverted index used for scoring.
+     */
+    public buildIndex() {
+        this.noteTagsMap.clear();
+        this.notes.clear();
+        this.segmentPostings.clear();
+        this.linkPostings.clear();
+        this.basenamePostings.clear();
+        this.folderPostings.clear();
+
+        for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+            this.indexNote(file, this.plugin.app.metadataCache.getFileCache(file));
         }
+        this.indexBuilt = true;
+        this.trigger("changed", {notePath: null, tagsChanged: true, linksChanged: true, contentChanged: false} satisfies TagIndexChange);
+        this.syncContentIndex();
     }
 
-    private async indexSingleFile(file: TFile) {
-        const notePath = file.path;
-        const cache = this.plugin.app.metadataCache.getFileCache(file);
-        if (!cache) {
-            return;
+    /**
+     * Starts reading the note bodies into the content index if content similarity is weighted
+     * and they haven't been read yet (views are told to refresh when it's done), and drops them
+     * again once the weight is back to 0.
+     */
+    private syncContentIndex() {
+        const weighted = this.plugin.settings.weightContentSimilarity !== 0;
+        if (weighted && this.contentIndexState === "none") {
+            void this.buildContentIndex();
+        } else if (!weighted && this.contentIndexState !== "none") {
+            this.content.clear();
+            this.contentIndexState = "none";
+            this.contentIndexBuild++;
         }
+    }
 
-        // Collect tags
-        const tags: Set<string> = new Set();
-        if (cache.tags) {
-            for (const t of cache.tags) {
-                let rawTag = t.tag;
-                if (rawTag.startsWith("#")) rawTag = rawTag.substring(1);
-                tags.add(rawTag);
-            }
-        }
-        if (cache.frontmatter && cache.frontmatter.tags) {
-            const fmTags: unknown = cache.frontmatter.tags;
-            if (Array.isArray(fmTags)) {
-                fmTags.forEach((tag) => typeof tag === "string" && tags.add(tag));
-            } else if (typeof fmTags === "string") {
-                fmTags.split(/[, ]+/).forEach((t) => t && tags.add(t));
+    private async buildContentIndex() {
+        const {vault, metadataCache} = this.plugin.app;
+        const build = ++this.contentIndexBuild;
+        this.contentIndexState = "building";
+        for (const file of vault.getMarkdownFiles()) {
+            // Notes edited in the meantime are already indexed from the metadata event
+            if (this.content.has(file.path)) continue;
+            try {
+                const text = await vault.cachedRead(file);
+                if (build !== this.contentIndexBuild) return;
+                if (this.content.has(file.path) || vault.getAbstractFileByPath(file.path) !== file) continue;
+                this.content.set(file.path, noteBody(text, metadataCache.getFileCache(file)));
+            } catch (e) {
+                console.error(`Tag Tactician: could not read ${file.path} for content similarity`, e);
             }
         }
+        this.contentIndexState = "built";
+        this.trigger("changed", {notePath: null, tagsChanged: false, linksChanged: false, contentChanged: true} satisfies TagIndexChange);
+    }
 
-        this.noteTagsMap.set(notePath, tags);
+    /**
+     * Keep the index in sync with edited, renamed and deleted notes.
+     */
+    public registerEvents() {
+        const {app} = this.plugin;
+        this.plugin.registerEvent(
+            app.metadataCache.on("changed", (file, data, cache) => {
+                if (!this.indexBuilt || file.extension !== "md") return;
+                const previous = this.notes.get(file.path);
+                const previousTags = this.noteTagsMap.get(file.path);
+                this.indexNote(file, cache);
+                this.syncContentIndex();
+                this.trigger("changed", {
+                    notePath: file.path,
+                    tagsChanged: !sameKeys(previousTags, this.noteTagsMap.get(file.path)),
+                    linksChanged: !sameKeys(previous?.links, this.notes.get(file.path)?.links),
+                    contentChanged: this.contentIndexState !== "none" && this.content.set(file.path, noteBody(data, cache)),
+                } satisfies TagIndexChange);
+            })
+        );
+        this.plugin.registerEvent(
+            app.vault.on("rename", (file, oldPath) => {
+                if (!this.indexBuilt || !(file instanceof TFile) || file.extension !== "md") return;
+                this.removeNote(oldPath);
+                this.indexNote(file, app.metadataCache.getFileCache(file));
+                this.content.rename(oldPath, file.path);
+                this.trigger("changed", {
+                    notePath: file.path, oldPath, tagsChanged: true, linksChanged: true, contentChanged: this.contentIndexState !== "none",
+                } satisfies TagIndexChange);
+            })
+        );
+        this.plugin.registerEvent(
+            app.vault.on("delete", (file) => {
+                this.content.remove(file.path);
+                if (!this.indexBuilt || !this.noteTagsMap.has(file.path)) return;
+                this.removeNote(file.path);
+                this.trigger("changed", {
+                    notePath: file.path, tagsChanged: true, linksChanged: true, contentChanged: this.contentIndexState !== "none",
+                } satisfies TagIndexChange);
+            })
+        );
     }
 
     /**
-     * Approach #2:
-     * - Read the current note's metadata directly
-     * - Expand tags into prefix segments
-     * - Iterate *all* notes in the vault (except self)
-     * - For each, gather prefix segments, compute overlap + title similarity
+     * (Re-)index one note. Notes without a metadata cache entry are left out, as they score nothing.
      */
-    public computeRelatedNotes(currentNotePath: string): Array<{ notePath: string; score: number }> {
-        // 1) Get current note's tags and expand into prefix segments
-        const file = this.plugin.app.vault.getAbstractFileByPath(currentNotePath);
-        if (!(file instanceof TFile)) return [];
+    private indexNote(file: TFile, cache: CachedMetadata | null) {
+        if (file.extension !== "md") return;
+        this.removeNote(file.path);
+        if (!cache) return;
+
+        const tags = gatherTagsFromCache(cache, this.plugin.settings);
+        this.noteTagsMap.set(file.path, tags);
+
+        const note: IndexedNote = {
+            basename: file.basename,
+            folder: file.parent && file.parent.path !== "/" ? file.parent.path : "",
+            segments: gatherAllPrefixSegmentsForNote(tags),
+            links: new Set(cache.links?.map(l => l.link)),
+        };
+        this.notes.set(file.path, note);
+
+        for (const segKey of note.segments.keys()) {
+            addPosting(this.segmentPostings, segKey, file.path);
+        }
+        for (const link of note.links) {
+            addPosting(this.linkPostings, link, file.path);
+        }
+        addPosting(this.basenamePostings, note.basename, file.path);
+        addPosting(this.folderPostings, note.folder, file.path);
+    }
 
-        const currCache = this.plugin.app.metadataCache.getFileCache(file);
-        if (!currCache) return [];
+    private removeNote(notePath: string) {
+        this.noteTagsMap.delete(notePath);
 
-        // gather current note's full tags from the cache
-        const currFullTags = gatherTagsFromCache(currCache);
+        const note = this.notes.get(notePath);
+        if (!note) return;
 
-        // expand to prefix segments
-        const currentNoteSegments = gatherAllPrefixSegmentsForNote(currFullTags);
+        for (const segKey of note.segments.keys()) {
+            removePosting(this.segmentPostings, segKey, notePath);
+        }
+        for (const link of note.links) {
+            removePosting(this.linkPostings, link, notePath);
+        }
+        removePosting(this.basenamePostings, note.basename, notePath);
+        removePosting(this.folderPostings, note.folder, notePath);
+        this.notes.delete(notePath);
+    }
 
-        // also get the current note's title
-        const currentTitle = file.basename.toLowerCase();
+    /**
+     * Approach #3:
+     * - Read the current note's metadata directly
+     * - Expand tags into prefix segments
+     * - Collect candidates from the inverted index: notes sharing a tag prefix or a link (either way),
+     *   and with content similarity weighted, notes sharing a word
+     * - For each candidate, compute overlap + title/path similarity + links + content similarity
+     * - Other notes are only scored when their title/path similarity alone can reach the minimum score
+     *
+     * Returns the notes scoring at least `minimumRelatedNotesScore`, with the same scores as
+     * comparing against every note (and as `explainScore`).
+     */
+    public computeRelatedNotes(currentNotePath: string): Array<{ notePath: string; score: number }> {
+        // 1) Get current note's tags, expanded into prefix segments, title, folder and links
+        const current = this.readCurrentNote(currentNotePath);
+        if (!current) return [];
+
+        // 2) Walk the postings: the shared part of the tag factor sums the terms of the lists a note shows up in
+        const segmentTerms = this.createSegmentTerms();
+        const prefixOverlaps = new Map<string, number>();
+        for (const segKey of current.segments.keys()) {
+            const term = segmentTerms.get(segKey);
+            for (const notePath of this.segmentPostings.get(segKey) ?? []) {
+                prefixOverlaps.set(notePath, (prefixOverlaps.get(notePath) ?? 0) + term);
+            }
+        }
+        const currentTotal = segmentTerms.total(current.segments);
+
+        // Content similarity of every note sharing a word with the current one
+        const weightContentSimilarity = this.plugin.settings.weightContentSimilarity;
+        this.syncContentIndex();
+        const contentScores = weightContentSimilarity !== 0
+            ? this.content.similarities(currentNotePath)
+            : new Map<string, number>();
+
+        const candidates = new Set([...prefixOverlaps.keys(), ...contentScores.keys()]);
+        this.linkPostings.get(current.file.basename)?.forEach((notePath) => candidates.add(notePath));
+        for (const link of current.links) {
+            this.basenamePostings.get(link)?.forEach((notePath) => candidates.add(notePath));
+        }
+        candidates.delete(currentNotePath); // skip the current note
 
-        // 2) Iterate *every* note in the vault, compute overlap
-        const allFiles = this.plugin.app.vault.getMarkdownFiles();
+        // 3) Score the candidates. Only notes reaching the minimum score are listed, so the title
+        //    and path distances are cut short once a note can't get there anymore.
         const results: { notePath: string; score: number }[] = [];
 
         const weightTagSimilarity = this.plugin.settings.weightTagSimilarity;
         const weightTitleSimilarity = this.plugin.settings.weightTitleSimilarity;
         const weightPathSimilarity = this.plugin.settings.weightPathSimilarity;
         const weightLinkInterconnections = this.plugin.settings.weightLinkInterconnections;
+        const minimumScore = this.plugin.settings.minimumRelatedNotesScore;
 
-        for (const candidateFile of allFiles) {
-            const candidatePath = candidateFile.path;
-            if (candidatePath === currentNotePath) {
-                continue; // skip the current note
-            }
-
-            // gather candidate's tags from the cache
-            const candCache = this.plugin.app.metadataCache.getFileCache(candidateFile);
-            if (!candCache) continue;
-
-            const candTags = gatherTagsFromCache(candCache);
-            const candidateSegments = gatherAllPrefixSegmentsForNote(candTags);
+        const scoreCandidate = (candidatePath: string, candidate: IndexedNote) => {
+            // prefix overlap (case-insensitive), normalized by the metric
+            const sharedTerms = prefixOverlaps.get(candidatePath) ?? 0;
+            const prefixOverlapScore = sharedTerms === 0 ? 0 : this.normalizeTagOverlap(
+                sharedTerms, currentTotal, segmentTerms.total(candidate.segments)
+            );
 
-            // compute prefix overlap
-            let prefixOverlapScore = 0;
-            for (const seg of candidateSegments) {
-                if (currentNoteSegments.has(seg)) {
-                    prefixOverlapScore += 1;
-                }
+            // Links to each other
+            const linkScore = countLinks(current, candidate);
+
+            // Shared words in the bodies
+            const contentScore = contentScores.get(candidatePath) ?? 0;
+
+            const exactScore = (weightTagSimilarity * prefixOverlapScore)
+                + (weightLinkInterconnections * linkScore)
+                + (weightContentSimilarity * contentScore);
+            const candidateTitle = candidate.basename.toLowerCase();
+            const comparePaths = candidate.folder !== "" && current.folder !== "";
+            const maxPathScore = comparePaths ? maxWeightedSimilarity(weightPathSimilarity, currentNotePath, candidatePath) : 0;
+            if (exactScore + maxWeightedSimilarity(weightTitleSimilarity, current.title, candidateTitle) + maxPathScore < minimumScore) {
+                return;
             }
 
             // Title similarity
-            const candidateTitle = candidateFile.basename.toLowerCase();
-            const titleSimScore = levenshteinSimilarity(currentTitle, candidateTitle);
+            const titleSimScore = weightedSimilarity(
+                weightTitleSimilarity, current.title, candidateTitle, minimumScore - exactScore - maxPathScore
+            );
+            if (exactScore + titleSimScore + maxPathScore < minimumScore) {
+                return;
+            }
 
             // Path similarity
             let pathSimScore = 0
-            if (candidateFile.parent && file.parent && candidateFile.parent.path !== "/" && file.parent.path !== "/") {
-                pathSimScore = levenshteinSimilarity(file.path, candidatePath);
-            }
-
-            // Links to each other
-            let linkScore = 0;
-            if (candCache.links?.map(l => l.link).includes(file.basename)) {
-                linkScore++;
-            }
-            if (currCache.links?.map(l => l.link).includes(candidateFile.basename)) {
-                linkScore++;
+            if (comparePaths) {
+                pathSimScore = weightedSimilarity(
+                    weightPathSimilarity, currentNotePath, candidatePath, minimumScore - exactScore - titleSimScore
+                );
             }
 
             const totalScore = 0
                 + (weightTagSimilarity * prefixOverlapScore)
-                + (weightTitleSimilarity * titleSimScore)
-                + (weightPathSimilarity * pathSimScore)
-                + (weightLinkInterconnections * linkScore);
-            if (totalScore > 0) {
+                + titleSimScore
+                + pathSimScore
+                + (weightLinkInterconnections * linkScore)
+                + (weightContentSimilarity * contentScore);
+            if (totalScore > 0 && totalScore >= minimumScore) {
                 results.push({notePath: candidatePath, score: totalScore});
             }
+        };
+
+        for (const candidatePath of candidates) {
+            const candidate = this.notes.get(candidatePath);
+            if (candidate) scoreCandidate(candidatePath, candidate);
         }
 
-        // sort descending
-        results.sort((a, b) => b.score - a.score);
+        // 4) Notes sharing nothing (not even a word) only score by title and path similarity. Look at them
+        //    only if those can reach the minimum score, so the list stays the same. They are walked folder
+        //    by folder: the distance of the current path to the folder is computed once, and with the
+        //    distance of the file names it bounds the path distance of each note before the full comparison.
+        const maxUnsharedScore = Math.max(weightTitleSimilarity, 0) + (current.folder ? Math.max(weightPathSimilarity, 0) : 0);
+        if (maxUnsharedScore > 0 && maxUnsharedScore >= minimumScore) {
+            const currentFileNameStart = current.folder.length + 1;
+            const currentFileName = currentNotePath.slice(currentFileNameStart);
+            for (const [folder, notePaths] of this.folderPostings) {
+                const comparePaths = folder !== "" && current.folder !== "";
+                const folderDistances = comparePaths && weightPathSimilarity > 0
+                    ? prefixDistances(currentNotePath, folder + "/")
+                    : null;
+                const minDistanceByLength = new Map<number, number>(); // the path bound before comparing file names
+                for (const candidatePath of notePaths) {
+                    if (candidates.has(candidatePath) || candidatePath === currentNotePath) continue;
+                    const candidate = this.notes.get(candidatePath);
+                    if (!candidate) continue;
+
+                    // Bounds from the cheapest to the exact distances: lengths, characters in common, then the titles
+                    // and the file names themselves
+                    const candidateTitle = candidate.basename.toLowerCase();
+                    const fileName = candidatePath.slice(folder.length + 1);
+                    const pathLength = Math.max(currentNotePath.length, candidatePath.length);
+                    let maxTitleScore = maxWeightedSimilarity(weightTitleSimilarity, current.title, candidateTitle);
+                    let maxPathScore = 0;
+                    if (folderDistances) {
+                        let minDistance = minDistanceByLength.get(fileName.length);
+                        if (minDistance === undefined) {
+                            minDistance = minDistanceWithSuffix(folderDistances, currentFileNameStart, fileName.length, 0);
+                            minDistanceByLength.set(fileName.length, minDistance);
+                        }
+                        maxPathScore = weightPathSimilarity * similarityFromDistance(pathLength, minDistance);
+                        if (maxTitleScore + maxPathScore < minimumScore) continue;
+                        maxPathScore = weightPathSimilarity * similarityFromDistance(pathLength, minDistanceWithSuffix(
+                            folderDistances, currentFileNameStart, fileName.length, minDistanceByCharacters(currentFileName, fileName)
+                        ));
+                    }
+                    if (maxTitleScore + maxPathScore < minimumScore) continue;
+                    if (weightTitleSimilarity > 0) {
+                        maxTitleScore = weightTitleSimilarity * similarityFromDistance(
+                            Math.max(current.title.length, candidateTitle.length), minDistanceByCharacters(current.title, candidateTitle)
+                        );
+                        if (maxTitleScore + maxPathScore < minimumScore) continue;
+                    }
+                    const titleScore = weightedSimilarity(weightTitleSimilarity, current.title, candidateTitle, minimumScore - maxPathScore);
+                    if (titleScore + maxPathScore < minimumScore) continue;
+                    if (folderDistances) {
+                        maxPathScore = weightPathSimilarity * similarityFromDistance(pathLength, minDistanceWithSuffix(
+                            folderDistances, currentFileNameStart, fileName.length, levenshteinDistance(currentFileName, fileName)
+                        ));
+                        if (titleScore + maxPathScore < minimumScore) continue;
+                    }
+                    scoreCandidate(candidatePath, candidate);
+                }
+            }
+        }
+
+        // sort descending (ties by path, so the order doesn't depend on the index)
+        results.sort((a, b) => b.score - a.score || a.notePath.localeCompare(b.notePath));
         return results;
     }
 
+    /**
+     * The factors behind one candidate's score, for the view's tooltip.
+     * Null if either note isn't indexed.
+     */
+    public explainScore(currentNotePath: string, candidatePath: string): RelatedNoteScore | null {
+        const current = this.readCurrentNote(currentNotePath);
+        const candidate = this.notes.get(candidatePath);
+        if (!current || !candidate) return null;
+
+        const segmentTerms = this.createSegmentTerms();
+        let sharedTerms = 0;
+        const sharedSegments: Array<[string, number]> = [];
+        for (const [segKey, segment] of current.segments) {
+            if (candidate.segments.has(segKey)) {
+                const term = segmentTerms.get(segKey);
+                sharedTerms += term;
+                sharedSegments.push([segment, term]);
+            }
+        }
+
+        // Each shared segment's part of the tag factor: its term over the metric's denominator
+        const currentTotal = segmentTerms.total(current.segments);
+        const candidateTotal = segmentTerms.total(candidate.segments);
+        const tagScore = sharedTerms === 0 ? 0 : this.normalizeTagOverlap(sharedTerms, currentTotal, candidateTotal);
+        const scale = sharedTerms === 0 ? 0 : tagScore / sharedTerms;
+        const sharedTags = sharedSegments.map(([tag, term]) => ({tag, contribution: term * scale}));
+
+        const titleScore = levenshteinSimilarity(current.title, candidate.basename.toLowerCase());
+        const pathScore = candidate.folder !== "" && current.folder !== ""
+            ? levenshteinSimilarity(currentNotePath, candidatePath)
+            : 0;
+        const linkScore = countLinks(current, candidate);
+
+        const {settings} = this.plugin;
+        const contentScore = settings.weightContentSimilarity !== 0
+            ? this.content.similarity(currentNotePath, candidatePath)
+            : 0;
+
+        const total = 0
+            + (settings.weightTagSimilarity * tagScore)
+            + (settings.weightTitleSimilarity * titleScore)
+            + (settings.weightPathSimilarity * pathScore)
+            + (settings.weightLinkInterconnections * linkScore)
+            + (settings.weightContentSimilarity * contentScore);
+        return {tagScore, sharedTags, titleScore, pathScore, linkScore, contentScore, total};
+    }
+
+    /**
+     * How much a prefix segment weighs: 1, or with "rarity" weighting its BM25 inverse document
+     * frequency, so a prefix on few notes counts more than one on many. With a depth decay,
+     * a segment at depth d (1 for a root) is further multiplied by `1 - decay^d`.
+     */
+    private segmentWeight(segKey: string): number {
+        let weight = 1;
+        if (this.plugin.settings.tagOverlapWeighting === "rarity") {
+            const documentFrequency = this.segmentPostings.get(segKey)?.size ?? 0;
+            weight = Math.log(1 + (this.notes.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        }
+        const decay = Math.min(Math.max(this.plugin.settings.tagDepthDecay, 0), 0.99);
+        if (decay > 0) {
+            weight *= 1 - Math.pow(decay, segKey.split("/").length);
+        }
+        return weight;
+    }
+
+    private createSegmentTerms(): SegmentTerms {
+        return new SegmentTerms(
+            (segKey) => this.segmentWeight(segKey),
+            this.plugin.settings.tagSimilarityMetric === "cosine"
+        );
+    }
+
+    /**
+     * Turns the summed terms of the shared segments into the tag factor, given the sums over
+     * each note's own segments (see `SegmentTerms`):
+     * - count: the shared sum as is
+     * - jaccard: shared / (current + candidate - shared)
+     * - cosine: shared / sqrt(current * candidate), with squared weights as terms
+     * - overlap: shared / min(current, candidate)
+     */
+    private normalizeTagOverlap(shared: number, currentTotal: number, candidateTotal: number): number {
+        switch (this.plugin.settings.tagSimilarityMetric) {
+            case "jaccard":
+                return shared / (currentTotal + candidateTotal - shared);
+            case "cosine":
+                return shared / Math.sqrt(currentTotal * candidateTotal);
+            case "overlap":
+                return shared / Math.min(currentTotal, candidateTotal);
+            default:
+                return shared;
+        }
+    }
+
+    /**
+     * Reads the active note from the metadata cache (it may have changed since it was indexed).
+     */
+    private readCurrentNote(notePath: string): CurrentNote | null {
+        const file = this.plugin.app.vault.getAbstractFileByPath(notePath);
+        if (!(file instanceof TFile)) return null;
+
+        const cache = this.plugin.app.metadataCache.getFileCache(file);
+        if (!cache) return null;
+
+        if (!this.indexBuilt) {
+            this.buildIndex();
+        }
+
+        return {
+            file,
+            title: file.basename.toLowerCase(),
+            folder: file.parent && file.parent.path !== "/" ? file.parent.path : "",
+            segments: gatherAllPrefixSegmentsForNote(gatherTagsFromCache(cache, this.plugin.settings)),
+            links: new Set(cache.links?.map(l => l.link)),
+        };
+    }
+
     /**
      * Accessor if you need the tags for a note from the in-memory map (like in your view).
      */
@@ -151,9 +519,86 @@ export class TagIndexer {
 }
 
 /**
- * Utility function to collect tags from metadata cache
+ * Each segment's term in the tag factor (its weight, squared for cosine), memoized for one
+ * scoring run since rarity weights are the same for every candidate.
+ */
+class SegmentTerms {
+    private weightOf: (segKey: string) => number;
+    private squared: boolean;
+    private terms: Map<string, number> = new Map();
+
+    constructor(weightOf: (segKey: string) => number, squared: boolean) {
+        this.weightOf = weightOf;
+        this.squared = squared;
+    }
+
+    get(segKey: string): number {
+        let term = this.terms.get(segKey);
+        if (term === undefined) {
+            const weight = this.weightOf(segKey);
+            term = this.squared ? weight * weight : weight;
+            this.terms.set(segKey, term);
+        }
+        return term;
+    }
+
+    /** The sum over all of a note's segments. */
+    total(segments: Map<string, string>): number {
+        let total = 0;
+        for (const segKey of segments.keys()) {
+            total += this.get(segKey);
+        }
+        return total;
+    }
+}
+
+/**
+ * 0–2: +1 if the candidate links to the active note, +1 if the active note links to the candidate
+ */
+function countLinks(current: CurrentNote, candidate: IndexedNote): number {
+    let linkScore = 0;
+    if (candidate.links.has(current.file.basename)) {
+        linkScore++;
+    }
+    if (current.links.has(candidate.basename)) {
+        linkScore++;
+    }
+    return linkScore;
+}
+
+/**
+ * Whether two sets hold the same values (a missing set counts as empty)
+ */
+function sameKeys(a: Set<string> = new Set(), b: Set<string> = new Set()): boolean {
+    if (a.size !== b.size) return false;
+    for (const key of a) {
+        if (!b.has(key)) return false;
+    }
+    return true;
+}
+
+function addPosting(postings: Map<string, Set<string>>, key: string, notePath: string) {
+    let list = postings.get(key);
+    if (!list) {
+        list = new Set();
+        postings.set(key, list);
+    }
+    list.add(notePath);
+}
+
+function removePosting(postings: Map<string, Set<string>>, key: string, notePath: string) {
+    const list = postings.get(key);
+    if (!list) return;
+    list.delete(notePath);
+    if (list.size === 0) postings.delete(key);
+}
+
+/**
+ * Utility function to collect tags from metadata cache: inline tags and the values of every
+ * recognized tag property (see getTagPropertyNames). Tags that differ only in case are
+ * collected once, in their first spelling.
  */
-export function gatherTagsFromCache(cache: CachedMetadata | null): Set<string> {
+export function gatherTagsFromCache(cache: CachedMetadata | null, settings: TagPropertySettings): Set<string> {
     const tags: Set<string> = new Set();
     if (!cache) return tags;
     if (cache.tags) {
@@ -163,15 +608,10 @@ export function gatherTagsFromCache(cache: CachedMetadata | null): Set<string> {
             tags.add(rawTag);
         }
     }
-    if (cache.frontmatter && cache.frontmatter.tags) {
-        const fmTags: unknown = cache.frontmatter.tags;
-        if (Array.isArray(fmTags)) {
-            fmTags.forEach((tag) => typeof tag === "string" && tags.add(tag));
-        } else if (typeof fmTags === "string") {
-            fmTags.split(/[, ]+/).forEach((t) => t && tags.add(t));
-        }
+    for (const tag of collectFrontmatterTags(cache.frontmatter, getTagPropertyNames(settings))) {
+        tags.add(tag);
     }
-    return tags;
+    return new Set(uniqueTags(tags));
 }
 
 /**
@@ -188,53 +628,74 @@ function expandTagIntoPrefixes(fullTag: string): string[] {
 }
 
 /**
- * Get all tag prefix segments from a note
+ * Get all tag prefix segments from a note, keyed by `tagKey()` so that
+ * "Project/Alpha" and "project/alpha" overlap. Values keep the note's spelling for display.
  */
-export function gatherAllPrefixSegmentsForNote(noteTags: Set<string>): Set<string> {
-    const allSegments = new Set<string>();
+export function gatherAllPrefixSegmentsForNote(noteTags: Set<string>): Map<string, string> {
+    const allSegments = new Map<string, string>();
     for (const tag of noteTags) {
         for (const prefix of expandTagIntoPrefixes(tag)) {
-            allSegments.add(prefix);
+            if (!allSegments.has(tagKey(prefix))) {
+                allSegments.set(tagKey(prefix), prefix);
+            }
         }
     }
     return allSegments;
 }
 
+// The two rows of the DP table, reused: scoring compares thousands of short strings per note switch
+let distanceRows = [new Int32Array(64), new Int32Array(64)];
+
 /**
- * Calculate the Levenshtein distance between two strings
+ * Calculate the Levenshtein distance between two strings. Only distances up to `maxDistance`
+ * are computed exactly (a band of the DP table, two rows at a time); anything further
+ * returns `maxDistance + 1`.
  */
-function levenshteinDistance(str1: string, str2: string): number {
+function levenshteinDistance(str1: string, str2: string, maxDistance: number = Math.max(str1.length, str2.length)): number {
     const m = str1.length;
     const n = str2.length;
+    const band = Math.min(maxDistance, Math.max(m, n));
+    const tooFar = band + 1;
+    if (Math.abs(m - n) > band) return tooFar;
 
-    const dp: number[][] = [];
-
-    for (let i = 0; i <= m; i++) {
-        dp[i] = [i];
+    if (distanceRows[0].length < n + 2) {
+        distanceRows = [new Int32Array(n + 2), new Int32Array(n + 2)];
     }
-
-    for (let j = 0; j <= n; j++) {
-        dp[0][j] = j;
+    let prev = distanceRows[0];
+    let curr = distanceRows[1];
+    for (let j = 0; j <= n + 1; j++) {
+        prev[j] = j <= band ? j : tooFar;
     }
 
     for (let i = 1; i <= m; i++) {
-        for (let j = 1; j <= n; j++) {
-            const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-            dp[i][j] = Math.min(
-                dp[i - 1][j] + 1, // deletion
-                dp[i][j - 1] + 1, // insertion
-                dp[i - 1][j - 1] + cost // substitution
-            );
+        const from = Math.max(1, i - band);
+        const to = Math.min(n, i + band);
+        curr[from - 1] = from === 1 && i <= band ? i : tooFar;
+        let rowMin = curr[from - 1];
+        const char = str1.charCodeAt(i - 1);
+        for (let j = from; j <= to; j++) {
+            let distance = prev[j - 1] + (char === str2.charCodeAt(j - 1) ? 0 : 1); // substitution
+            if (prev[j] + 1 < distance) distance = prev[j] + 1; // deletion
+            if (curr[j - 1] + 1 < distance) distance = curr[j - 1] + 1; // insertion
+            if (distance > tooFar) distance = tooFar;
+            curr[j] = distance;
+            if (distance < rowMin) rowMin = distance;
         }
+        curr[to + 1] = tooFar;
+        if (rowMin > band) return tooFar;
+        const done = prev;
+        prev = curr;
+        curr = done;
     }
 
-    return dp[m][n];
+    return prev[n];
 }
 
 /**
- * Calculate a similarity score between two strings based on Levenshtein distance
+ * Calculate a similarity score between two strings based on Levenshtein distance.
+ * Scores below `minSimilarity` are only known to be below it: a lower value is returned.
  */
-export function levenshteinSimilarity(s1: string, s2: string): number {
+export function levenshteinSimilarity(s1: string, s2: string, minSimilarity: number = 0): number {
     let longer = s1;
     let shorter = s2;
     if (s1.length < s2.length) {
@@ -245,5 +706,93 @@ export function levenshteinSimilarity(s1: string, s2: string): number {
     if (longerLength === 0) {
         return 1.0;
     }
-    return (longerLength - levenshteinDistance(longer, shorter)) / longerLength;
-}
\ No newline at end of file
+    // One more than needed, so rounding can't cut off a score that just reaches minSimilarity
+    const maxDistance = minSimilarity > 0 ? Math.max(Math.floor(longerLength * (1 - minSimilarity)) + 1, 0) : longerLength;
+    return similarityFromDistance(longerLength, levenshteinDistance(longer, shorter, maxDistance));
+}
+
+// Character counts for minDistanceByCharacters(), by char code (folded onto 0–255)
+const characterCounts = new Int32Array(256);
+
+/**
+ * Lower bound of the Levenshtein distance from the characters both strings contain: every
+ * character of the longer string that isn't matched to an equal one costs an edit
+ */
+function minDistanceByCharacters(s1: string, s2: string): number {
+    for (let i = 0; i < s1.length; i++) {
+        characterCounts[s1.charCodeAt(i) & 255]++;
+    }
+    let common = 0;
+    for (let i = 0; i < s2.length; i++) {
+        const code = s2.charCodeAt(i) & 255;
+        if (characterCounts[code] > 0) {
+            characterCounts[code]--;
+            common++;
+        }
+    }
+    for (let i = 0; i < s1.length; i++) {
+        characterCounts[s1.charCodeAt(i) & 255] = 0;
+    }
+    return Math.max(s1.length, s2.length) - common;
+}
+
+/**
+ * Levenshtein similarity from the distance and the longer string's length
+ */
+function similarityFromDistance(longerLength: number, distance: number): number {
+    return longerLength === 0 ? 1.0 : (longerLength - distance) / longerLength;
+}
+
+/**
+ * The Levenshtein distances of every prefix of `text` to `prefix`: entry `j` is the distance of
+ * `text.slice(0, j)`. The distance of `text` to `prefix + suffix` is the minimum over `j` of this
+ * plus the distance of `text.slice(j)` to `suffix`.
+ */
+function prefixDistances(text: string, prefix: string): Int32Array {
+    let prev = new Int32Array(text.length + 1);
+    let curr = new Int32Array(text.length + 1);
+    for (let j = 0; j <= text.length; j++) prev[j] = j;
+    for (let i = 1; i <= prefix.length; i++) {
+        const char = prefix.charCodeAt(i - 1);
+        curr[0] = i;
+        for (let j = 1; j <= text.length; j++) {
+            const cost = char === text.charCodeAt(j - 1) ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+        }
+        [prev, curr] = [curr, prev];
+    }
+    return prev;
+}
+
+/**
+ * Lower bound of the distance of the text behind `prefixDistances()` to `prefix + suffix`, knowing only
+ * the suffix's length and a lower bound of its distance to `text.slice(suffixStart)`.
+ * `text.slice(j)` is that far from `suffix` minus the |j - suffixStart| characters it has more or fewer,
+ * and at least as far as their lengths differ.
+ */
+function minDistanceWithSuffix(prefixDistances: Int32Array, suffixStart: number, suffixLength: number, suffixDistance: number): number {
+    const textLength = prefixDistances.length - 1;
+    let minDistance = Infinity;
+    for (let j = 0; j <= textLength; j++) {
+        const rest = Math.max(Math.abs(textLength - j - suffixLength), suffixDistance - Math.abs(j - suffixStart));
+        minDistance = Math.min(minDistance, prefixDistances[j] + rest);
+    }
+    return minDistance;
+}
+
+/**
+ * `weight * levenshteinSimilarity()`, exact if it is at least `minScore`
+ */
+function weightedSimilarity(weight: number, s1: string, s2: string, minScore: number): number {
+    return weight * levenshteinSimilarity(s1, s2, weight > 0 ? minScore / weight : 0);
+}
+
+/**
+ * Upper bound of `weightedSimilarity()` from the lengths alone
+ * (the distance is at least the difference in length)
+ */
+function maxWeightedSimilarity(weight: number, s1: string, s2: string): number {
+    if (weight <= 0) return 0;
+    const longerLength = Math.max(s1.length, s2.length);
+    return longerLength === 0 ? weight : weight * Math.min(s1.length, s2.length) / longerLength;
+}
@@ -1,5 +1,30 @@
 export type TagListStyle = "hyphens" | "brackets";
 
+export type TagOrderPolicy = "preserve" | "alphabetical" | "hierarchical";
+
+export interface TagPreset {
+    id: string;     // stable, used in the preset's command id
+    name: string;   // e.g. "Web clipping"
+    tags: string[]; // e.g. ["status/inbox", "source/web", "review/todo"]
+}
+
+export interface FolderTagRule {
+    id: string;      // stable, used in the rule's command id
+    pattern: string; // glob on the note path, e.g. "Clients/*/**"
+    tags: string[];  // tag templates, "$1" is the first wildcard's match, e.g. ["client", "client/$1"]
+}
+
+export interface TagNormalizationRules {
+    lowercase: boolean;      // "Project" => "project"
+    spacesToDashes: boolean; // "my tag" => "my-tag"
+    stripHash: boolean;      // "#tag" => "tag"
+    collapseSlashes: boolean; // "a//b/" => "a/b"
+}
+
+export type TagOverlapWeighting = "count" | "rarity";
+
+export type TagSimilarityMetric = "count" | "jaccard" | "cosine" | "overlap";
+
 export type TagNavSortMode =
     | "alphabetically-descending"
     | "file-count-descending"
@@ -15,6 +40,24 @@ export interface TagTacticianSettings {
 
     showNonMarkdownWarning: boolean;
     tagListStyle: TagListStyle;
+    // How the bulk-edit modal orders each note's tags
+    tagOrder: TagOrderPolicy;
+    // Clean-ups applied to tags typed into the add / rename inputs before they are validated
+    tagNormalization: TagNormalizationRules;
+    // Named tag bundles, offered in the bulk-edit modal and as "Apply preset" commands
+    tagPresets: TagPreset[];
+    // Tags added to notes by folder, e.g. everything in "Clients/**" gets "client"
+    folderTagRules: FolderTagRule[];
+    // Whether the folder tag rules are applied when notes are created or moved
+    autoApplyFolderTagRules: boolean;
+    // Frontmatter properties read as tags (case-insensitive), e.g. ["tags", "tag", "topics"]
+    tagPropertyNames: string[];
+    // The property edited tags are written to; the other tag properties are folded into it
+    tagWriteProperty: string;
+    // Number of bulk edits kept in the undo journal
+    undoHistorySize: number;
+    // Whether converting inline <-> frontmatter tags keeps the original occurrences
+    keepTagsAfterConversion: boolean;
 
     // ==================
     // Related Notes
@@ -26,10 +69,18 @@ export interface TagTacticianSettings {
     defaultShowScore: boolean;
     // Minimum score to show in Related Notes
     minimumRelatedNotesScore: number;
+    // How shared tag prefixes count: 1 each, or by how rare they are in the vault
+    tagOverlapWeighting: TagOverlapWeighting;
+    // How the shared tag prefixes become the tag factor: a plain sum, or normalized by both notes' tags
+    tagSimilarityMetric: TagSimilarityMetric;
+    // 0 counts every tag level the same; towards 1, top-level prefixes count less than deeper ones
+    tagDepthDecay: number;
     weightTagSimilarity: number;
     weightTitleSimilarity: number;
     weightPathSimilarity: number;
     weightLinkInterconnections: number;
+    // 0 leaves note bodies unread; anything else indexes their words locally
+    weightContentSimilarity: number;
 
     // ==================
     // Nav by Tags
@@ -44,13 +95,31 @@ export interface TagTacticianSettings {
 export const DEFAULT_SETTINGS: TagTacticianSettings = {
     showNonMarkdownWarning: true,
     tagListStyle: "hyphens",
+    tagOrder: "preserve",
+    tagNormalization: {
+        lowercase: false,
+        spacesToDashes: false,
+        stripHash: true,
+        collapseSlashes: false,
+    },
+    tagPresets: [],
+    folderTagRules: [],
+    autoApplyFolderTagRules: true,
+    tagPropertyNames: ["tags", "tag"],
+    tagWriteProperty: "tags",
+    undoHistorySize: 20,
+    keepTagsAfterConversion: false,
     defaultShowTags: true,
     defaultShowScore: true,
     minimumRelatedNotesScore: 1,
+    tagOverlapWeighting: "count",
+    tagSimilarityMetric: "count",
+    tagDepthDecay: 0,
     weightTagSimilarity: 1.0,
     weightTitleSimilarity: 1.0,
     weightPathSimilarity: 1.0,
     weightLinkInterconnections: 1.0,
+    weightContentSimilarity: 0,
     nbtDefaultSort: "alphabetically-descending",
     nbtTagGroupClosedIcon: "chevron-right",
     nbtTagGroupOpenIcon: "chevron-down",
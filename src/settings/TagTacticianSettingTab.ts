@@ -1,16 +1,32 @@
 import {App, PluginSettingTab, Setting} from "obsidian";
 import TagTacticianPlugin from "../../main";
-import {TagNavSortMode} from "./PluginSettings";
+import {TagNavSortMode, TagNormalizationRules, TagOrderPolicy, TagOverlapWeighting, TagSimilarityMetric} from "./PluginSettings";
 import {IconSelectionModal} from "./IconSelectionModal";
+import {createTagPreset} from "../batch/TagPresets";
+import {createFolderTagRule, parseFolderTagTemplates} from "../batch/FolderTagRules";
+import {parseTagList} from "../batch/TagSyntax";
 
 export class TagTacticianSettingTab extends PluginSettingTab {
     plugin: TagTacticianPlugin;
+    private tagPropertiesChanged = false; // the tag index is rebuilt once the tab is closed
 
     constructor(app: App, plugin: TagTacticianPlugin) {
         super(app, plugin);
         this.plugin = plugin;
     }
 
+    /**
+     * Rebuilds the tag index if the tag properties changed while the tab was open
+     * (once, rather than on every keystroke).
+     */
+    hide(): void {
+        super.hide();
+        if (this.tagPropertiesChanged) {
+            this.tagPropertiesChanged = false;
+            this.plugin.tagIndexer.buildIndex();
+        }
+    }
+
     display(): void {
         const {containerEl} = this;
         containerEl.empty();
@@ -50,6 +66,227 @@ export class TagTacticianSettingTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName("Tag order")
+            .setDesc("How the bulk-edit modal orders each note's tags. Preserving keeps the existing order and appends new tags; hierarchical groups nested tags under their parent.")
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption("preserve", "Preserve existing order")
+                    .addOption("alphabetical", "Alphabetical")
+                    .addOption("hierarchical", "Grouped by hierarchy")
+                    .setValue(this.plugin.settings.tagOrder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tagOrder = value as TagOrderPolicy;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Tag properties")
+            .setDesc("Frontmatter properties that hold tags, separated by commas. Their tags are merged when reading; case is ignored.")
+            .addText((text) => {
+                text
+                    .setPlaceholder("Property names")
+                    .setValue(this.plugin.settings.tagPropertyNames.join(", "))
+                    .onChange(async (val) => {
+                        const names = val.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+                        this.plugin.settings.tagPropertyNames = names.length > 0 ? names : ["tags"];
+                        await this.plugin.saveSettings();
+                        this.tagPropertiesChanged = true;
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Write tags to")
+            .setDesc("The property edited tags are saved in. Tags from the other tag properties are moved into it.")
+            .addText((text) => {
+                text
+                    .setPlaceholder("Property name")
+                    .setValue(this.plugin.settings.tagWriteProperty)
+                    .onChange(async (val) => {
+                        // Always read as a tag property too (see getTagPropertyNames), so it isn't added to the list
+                        this.plugin.settings.tagWriteProperty = val.trim() || "tags";
+                        await this.plugin.saveSettings();
+                        this.tagPropertiesChanged = true;
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Undo history size")
+            .setDesc("How many bulk tag edits are remembered so they can be undone (a whole number, at least 1).")
+            .addText((text) => {
+                text
+                    .setPlaceholder("20")
+                    .setValue(this.plugin.settings.undoHistorySize.toString())
+                    .onChange(async (val) => {
+                        const size = Number(val);
+                        if (!Number.isInteger(size) || size < 1) return;
+                        this.plugin.settings.undoHistorySize = size;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Keep tags after conversion")
+            .setDesc("When moving tags between the note body and the frontmatter, keep the original tags instead of removing them.")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.keepTagsAfterConversion)
+                    .onChange(async (val) => {
+                        this.plugin.settings.keepTagsAfterConversion = val;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Tag normalization")
+            .setDesc("Clean-ups applied to tags typed into the add tags, rename and merge inputs. Tags that still aren't valid Obsidian tags are rejected with an error.")
+            .setHeading();
+
+        const normalizationRules: [keyof TagNormalizationRules, string, string][] = [
+            ["stripHash", "Strip leading #", "Accept #tag and save it as tag."],
+            ["lowercase", "Lowercase", "Save Project as project."],
+            ["spacesToDashes", "Replace spaces with dashes", "Save my tag as my-tag."],
+            ["collapseSlashes", "Collapse repeated slashes", "Save a//b/ as a/b."],
+        ];
+        for (const [rule, name, desc] of normalizationRules) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addToggle((toggle) =>
+                    toggle
+                        .setValue(this.plugin.settings.tagNormalization[rule])
+                        .onChange(async (val) => {
+                            this.plugin.settings.tagNormalization = {...this.plugin.settings.tagNormalization, [rule]: val};
+                            await this.plugin.saveSettings();
+                        })
+                );
+        }
+
+        new Setting(containerEl)
+            .setName("Tag presets")
+            .setDesc("Named sets of tags. Insert them into the add or remove fields of the bulk-edit modal, or apply one to the current note with its command (bind a hotkey to it).")
+            .setHeading();
+
+        for (const preset of this.plugin.settings.tagPresets) {
+            const presetSetting = new Setting(containerEl)
+                .addText((text) => {
+                    text
+                        .setPlaceholder("Preset name")
+                        .setValue(preset.name)
+                        .onChange(async (val) => {
+                            preset.name = val.trim() || "Unnamed preset";
+                            await this.plugin.saveSettings();
+                            this.plugin.registerTagPresetCommands();
+                        });
+                })
+                .addText((text) => {
+                    text
+                        .setPlaceholder("Tags (comma separated)")
+                        .setValue(preset.tags.join(", "))
+                        .onChange(async (val) => {
+                            const parsed = parseTagList(val, this.plugin.settings.tagNormalization);
+                            preset.tags = parsed.tags;
+                            presetSetting.setDesc(parsed.errors.join(" "));
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.addClass("tt-preset-tags");
+                })
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete preset")
+                        .onClick(async () => {
+                            this.plugin.settings.tagPresets = this.plugin.settings.tagPresets.filter((p) => p !== preset);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
+        }
+
+        new Setting(containerEl)
+            .addButton((button) =>
+                button
+                    .setButtonText("Add preset")
+                    .onClick(async () => {
+                        this.plugin.settings.tagPresets = [...this.plugin.settings.tagPresets, createTagPreset()];
+                        await this.plugin.saveSettings();
+                        this.plugin.registerTagPresetCommands();
+                        this.display();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Folder tag rules")
+            .setDesc("Tags for notes by where they are stored. A pattern is matched against the note's path: * stands for one folder or file name, ** for any number of them. In the tags, $1 is the name matched by the first wildcard, $2 by the second, and so on. Rules only ever add tags.")
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName("Apply when notes are created or moved")
+            .setDesc("Add the matching rules' tags to new notes and to notes moved into another folder. Each run can be undone like a bulk edit.")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.autoApplyFolderTagRules)
+                    .onChange(async (val) => {
+                        this.plugin.settings.autoApplyFolderTagRules = val;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        for (const rule of this.plugin.settings.folderTagRules) {
+            const ruleSetting = new Setting(containerEl)
+                .addText((text) => {
+                    text
+                        .setPlaceholder("Path pattern, e.g. Clients/*/**")
+                        .setValue(rule.pattern)
+                        .onChange(async (val) => {
+                            rule.pattern = val.trim();
+                            await this.plugin.saveSettings();
+                            this.plugin.registerFolderTagRuleCommands();
+                        });
+                })
+                .addText((text) => {
+                    text
+                        .setPlaceholder("Tags (comma separated)")
+                        .setValue(rule.tags.join(", "))
+                        .onChange(async (val) => {
+                            const parsed = parseFolderTagTemplates(val, this.plugin.settings.tagNormalization);
+                            rule.tags = parsed.tags;
+                            ruleSetting.setDesc(parsed.errors.join(" "));
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.addClass("tt-preset-tags");
+                })
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("play")
+                        .setTooltip("Preview on existing notes")
+                        .onClick(() => this.plugin.openFolderTagRulePreview(rule))
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete rule")
+                        .onClick(async () => {
+                            this.plugin.settings.folderTagRules = this.plugin.settings.folderTagRules.filter((r) => r !== rule);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
+        }
+
+        new Setting(containerEl)
+            .addButton((button) =>
+                button
+                    .setButtonText("Add rule")
+                    .onClick(async () => {
+                        this.plugin.settings.folderTagRules = [...this.plugin.settings.folderTagRules, createFolderTagRule()];
+                        await this.plugin.saveSettings();
+                        this.plugin.registerFolderTagRuleCommands();
+                        this.display();
+                    })
+            );
+
         // ==================
         // Related Notes
         // ==================
@@ -108,6 +345,51 @@ export class TagTacticianSettingTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName("Tag overlap weighting")
+            .setDesc("Count every shared tag the same, or let tags on few notes count more than tags on many notes (the score tooltip shows each tag's share).")
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption("count", "Count shared tags")
+                    .addOption("rarity", "Weight by rarity")
+                    .setValue(this.plugin.settings.tagOverlapWeighting)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tagOverlapWeighting = value as TagOverlapWeighting;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Tag similarity metric")
+            .setDesc("Add up the shared tags, or divide them by the tags of both notes so that notes with many tags don't outrank closer matches. Normalized scores are between 0 and 1.")
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption("count", "Sum of shared tags")
+                    .addOption("jaccard", "Jaccard")
+                    .addOption("cosine", "Cosine")
+                    .addOption("overlap", "Overlap coefficient")
+                    .setValue(this.plugin.settings.tagSimilarityMetric)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tagSimilarityMetric = value as TagSimilarityMetric;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Tag depth decay")
+            .setDesc("From 0 to below 1. Above 0, shared parent tags like programming count less than shared nested tags like programming/python/django.")
+            .addText((text) => {
+                text
+                    .setPlaceholder("0")
+                    .setValue(this.plugin.settings.tagDepthDecay.toString())
+                    .onChange(async (val) => {
+                        const decay = Number(val);
+                        if (val.trim() === "" || !Number.isFinite(decay) || decay < 0 || decay >= 1) return;
+                        this.plugin.settings.tagDepthDecay = decay;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         new Setting(containerEl)
             .setName("Title similarity weight")
             .setDesc("The weight of file name similarity in the related notes score.")
@@ -147,6 +429,22 @@ export class TagTacticianSettingTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName("Content similarity weight")
+            .setDesc("The weight of shared words in the note bodies in the related notes score. Above 0, the bodies are read into a word index on this device; nothing is sent anywhere.")
+            .addText((text) => {
+                text
+                    .setPlaceholder("0")
+                    .setValue(this.plugin.settings.weightContentSimilarity.toString())
+                    .onChange(async (val) => {
+                        // Any other value than 0 starts reading the note bodies, so garbage is not saved
+                        const weight = Number(val);
+                        if (val.trim() === "" || !Number.isFinite(weight) || weight < 0) return;
+                        this.plugin.settings.weightContentSimilarity = weight;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         // ==================
         // Nav by Tag
         // ==================